@@ -0,0 +1,28 @@
+import { computeChecksum } from './checksum';
+import { ChecksumAlgorithm, ChecksumEncoding } from './models/checksum-options';
+
+describe('Checksums', () => {
+    it('should compute MD5 checksums', async () => {
+        expect(await computeChecksum(new Blob([]), ChecksumAlgorithm.Md5)).toBe('d41d8cd98f00b204e9800998ecf8427e');
+        expect(await computeChecksum(new Blob([ 'abc' ]), ChecksumAlgorithm.Md5)).toBe('900150983cd24fb0d6963f7d28e17f72');
+    });
+
+    it('should compute SHA-256 checksums', async () => {
+        expect(await computeChecksum(new Blob([]), ChecksumAlgorithm.Sha256))
+            .toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(await computeChecksum(new Blob([ 'abc' ]), ChecksumAlgorithm.Sha256))
+            .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should give the same checksum whatever the chunk size', async () => {
+        const blob = new Blob([ 'The quick brown fox jumps over the lazy dog. '.repeat(20) ]);
+        const checksum = await computeChecksum(blob, ChecksumAlgorithm.Sha256);
+        expect(await computeChecksum(blob, ChecksumAlgorithm.Sha256, ChecksumEncoding.Hex, 7)).toBe(checksum);
+        expect(await computeChecksum(blob, ChecksumAlgorithm.Sha256, ChecksumEncoding.Hex, 64)).toBe(checksum);
+    });
+
+    it('should encode checksums as base64', async () => {
+        expect(await computeChecksum(new Blob([ 'abc' ]), ChecksumAlgorithm.Md5, ChecksumEncoding.Base64))
+            .toBe('kAFQmDzST7DWlj99KOF/cg==');
+    });
+});
@@ -0,0 +1,22 @@
+import { toBase64, toHex } from './helpers';
+import { ChecksumAlgorithm, ChecksumEncoding } from './models/checksum-options';
+import { processInChunks } from './workers/chunk-processor';
+import { createHashProcessor } from './workers/hash';
+
+const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Resolves with the checksum of the file's content. The file is read and hashed a chunk at a time,
+ * in a Worker where possible, so that the page stays responsive and large files don't have to fit
+ * in memory (unlike with `crypto.subtle.digest`).
+ */
+export async function computeChecksum(
+    file: Blob,
+    algorithm: ChecksumAlgorithm,
+    encoding: ChecksumEncoding = ChecksumEncoding.Hex,
+    chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<string> {
+    let digest: Uint8Array;
+    await processInChunks(file, chunkSize, createHashProcessor, algorithm, (output) => digest = output);
+    return encoding === ChecksumEncoding.Base64 ? toBase64(digest) : toHex(digest);
+}
@@ -0,0 +1,46 @@
+import { compressBlob } from './compression';
+import { readAsArrayBuffer } from './helpers';
+import { CompressionFormat } from './models/compression-options';
+import { createDeflateProcessor } from './workers/deflate';
+
+interface IDecompressionStream {
+    readonly readable: ReadableStream;
+    readonly writable: WritableStream;
+}
+
+interface IDecompressionWindow extends Window {
+    DecompressionStream?: new (format: string) => IDecompressionStream;
+}
+
+describe('Compression', () => {
+    const csv = Array.from({ length: 1000 }, (_, index) => `${index},item-${index % 7},${index % 3 === 0}`).join('\n');
+    const DecompressionStream = (window as IDecompressionWindow).DecompressionStream;
+    const compress = (format: CompressionFormat) => {
+        const processor = createDeflateProcessor(format);
+        const bytes = new TextEncoder().encode(csv);
+        return new Blob([ processor.push(bytes.subarray(0, 5000)), processor.push(bytes.subarray(5000)), processor.finish() ]);
+    };
+    const decompress = async (blob: Blob, format: CompressionFormat) => {
+        const stream = (blob as Blob & { stream(): ReadableStream }).stream();
+        return new Response(stream.pipeThrough(new DecompressionStream(format))).text();
+    };
+
+    it('should compress with gzip and zlib headers', async () => {
+        const gzipBytes = new Uint8Array(await readAsArrayBuffer(compress(CompressionFormat.Gzip)));
+        const zlibBytes = new Uint8Array(await readAsArrayBuffer(compress(CompressionFormat.Deflate)));
+
+        expect(Array.from(gzipBytes.subarray(0, 3))).toEqual([ 0x1f, 0x8b, 8 ]);
+        expect(Array.from(zlibBytes.subarray(0, 2))).toEqual([ 0x78, 0x01 ]);
+        expect(gzipBytes.length).toBeLessThan(csv.length / 3);
+    });
+
+    it('should compress streams which decompress to the original', async () => {
+        if (typeof DecompressionStream !== 'function') {
+            pending('DecompressionStream is not supported by this browser.');
+            return;
+        }
+        expect(await decompress(compress(CompressionFormat.Gzip), CompressionFormat.Gzip)).toBe(csv);
+        expect(await decompress(compress(CompressionFormat.Deflate), CompressionFormat.Deflate)).toBe(csv);
+        expect(await decompress(await compressBlob(new Blob([ csv ])), CompressionFormat.Gzip)).toBe(csv);
+    });
+});
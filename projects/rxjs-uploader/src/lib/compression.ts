@@ -0,0 +1,44 @@
+import { CompressionFormat } from './models/compression-options';
+import { processInChunks } from './workers/chunk-processor';
+import { createDeflateProcessor } from './workers/deflate';
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// `CompressionStream` and `Blob#stream` aren't in this version of TypeScript's DOM typings, so
+// what's used of them is declared here.
+interface ICompressionStream {
+    readonly readable: ReadableStream;
+    readonly writable: WritableStream;
+}
+
+interface IStreamableBlob extends Blob {
+    stream(): ReadableStream;
+}
+
+interface ICompressionWindow extends Window {
+    CompressionStream?: new (format: string) => ICompressionStream;
+}
+
+/**
+ * Compresses the blob, with `CompressionStream` if the browser has it or a JavaScript compressor
+ * otherwise. Either way, the blob is read a chunk at a time rather than all at once, and each
+ * compressed chunk is wrapped in a Blob as soon as it's produced, so that the browser can move it
+ * out of memory.
+ */
+export async function compressBlob(
+    blob: Blob,
+    format: CompressionFormat = CompressionFormat.Gzip,
+    chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<Blob> {
+    const CompressionStream = (window as ICompressionWindow).CompressionStream;
+    const streamableBlob = blob as IStreamableBlob;
+    if (typeof CompressionStream === 'function' && typeof streamableBlob.stream === 'function') {
+        const stream = streamableBlob.stream().pipeThrough(new CompressionStream(format));
+        return new Blob([ await new Response(stream).blob() ], { type: blob.type });
+    }
+    const compressedChunks: Blob[] = [];
+    await processInChunks(blob, chunkSize, createDeflateProcessor, format, (output) => {
+        compressedChunks.push(new Blob([ output ]));
+    });
+    return new Blob(compressedChunks, { type: blob.type });
+}
@@ -4,5 +4,7 @@ export enum ProgressState {
     InProgress,
     Completed,
     Failed,
-    Cancelled
+    Cancelled,
+    Queued,
+    Rejected
 }
@@ -0,0 +1,60 @@
+import { getDeclaredContentTypeSignature, matchesContentTypeSignature, sniffContentType } from './content-type-sniffer';
+
+describe('Content type sniffing', () => {
+    const pngBytes = new Uint8Array([ 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d ]);
+    const exeBytes = new Uint8Array(0x84);
+    exeBytes.set([ 0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00 ]);
+    exeBytes[0x3c] = 0x80;
+    exeBytes.set([ 0x50, 0x45, 0x00, 0x00 ], 0x80);
+    const zipBytes = new Uint8Array([ 0x50, 0x4b, 0x03, 0x04, 0x14, 0x00 ]);
+
+    it('should detect formats from their first bytes', async () => {
+        expect((await sniffContentType(new File([ pngBytes ], 'image.png'))).type).toBe('image/png');
+        expect((await sniffContentType(new File([ '%PDF-1.7' ], 'doc.pdf'))).type).toBe('application/pdf');
+        expect((await sniffContentType(new File([ exeBytes ], 'setup.exe'))).type).toBe('application/x-msdownload');
+        expect(await sniffContentType(new File([ 'hello, world' ], 'notes.txt'))).toBeNull();
+    });
+
+    it('should only detect Windows executables which have a PE header', async () => {
+        const dosStubOnly = exeBytes.slice(0, 0x80);
+        const wrongOffset = exeBytes.slice();
+        wrongOffset[0x3c] = 0x40;
+
+        expect(await sniffContentType(new File([ 'MZ is how these notes start' ], 'notes.txt'))).toBeNull();
+        expect(await sniffContentType(new File([ dosStubOnly ], 'setup.exe'))).toBeNull();
+        expect(await sniffContentType(new File([ wrongOffset ], 'setup.exe'))).toBeNull();
+    });
+
+    it('should only detect MP3s and MP4s which have valid headers', async () => {
+        const mp3Bytes = new Uint8Array([ 0xff, 0xfb, 0x90, 0x64 ]);
+        const mp4Bytes = new Uint8Array(16);
+        mp4Bytes.set([ 0x00, 0x00, 0x00, 0x10, 0x66, 0x74, 0x79, 0x70 ]);
+        const utf16Bytes = new Uint8Array([ 0xff, 0xfe, 0x61, 0x00, 0x2c, 0x00, 0x62, 0x00 ]);
+
+        expect((await sniffContentType(new File([ mp3Bytes ], 'song.mp3'))).type).toBe('audio/mpeg');
+        expect((await sniffContentType(new File([ mp4Bytes ], 'clip.mp4'))).type).toBe('video/mp4');
+        expect(await sniffContentType(new File([ utf16Bytes ], 'data.csv'))).toBeNull();
+        expect(await sniffContentType(new File([ 'The wide river' ], 'notes.txt'))).toBeNull();
+        expect(await sniffContentType(new File([ 'Let freedom ring' ], 'notes.txt'))).toBeNull();
+    });
+
+    it('should find the format a file claims to be in', () => {
+        expect(getDeclaredContentTypeSignature(new File([], 'image.png', { type: 'image/png' })).type).toBe('image/png');
+        expect(getDeclaredContentTypeSignature(new File([], 'setup.exe', { type: '' })).type)
+            .toBe('application/x-msdownload');
+        expect(getDeclaredContentTypeSignature(new File([], 'notes.txt', { type: 'text/plain' }))).toBeNull();
+    });
+
+    it('should compare the detected format with the declared type or extension', async () => {
+        const png = await sniffContentType(new File([ pngBytes ], 'image.png'));
+        const exe = await sniffContentType(new File([ exeBytes ], 'image.png'));
+        const zip = await sniffContentType(new File([ zipBytes ], 'report.docx'));
+        const docxType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+        expect(matchesContentTypeSignature(new File([], 'image.png', { type: 'image/png' }), png)).toBe(true);
+        expect(matchesContentTypeSignature(new File([], 'image.png', { type: 'image/png' }), exe)).toBe(false);
+        expect(matchesContentTypeSignature(new File([], 'image.png', { type: '' }), exe)).toBe(false);
+        expect(matchesContentTypeSignature(new File([], 'report.docx', { type: docxType }), zip)).toBe(true);
+        expect(matchesContentTypeSignature(new File([], 'report.docx', { type: '' }), zip)).toBe(true);
+    });
+});
@@ -0,0 +1,224 @@
+import { readAsArrayBuffer } from './helpers';
+
+/** Describes a file format which can be recognized by the first bytes of its content. */
+export interface IContentTypeSignature {
+    /** The format's canonical MIME type. */
+    type: string;
+    /** Other MIME types browsers report for files in this format. */
+    aliases: string[];
+    /** Extensions of files in this format (lower-cased, including the dot). */
+    extensions: string[];
+    /** Whether the first bytes of a file, whose total size is `size`, are in this format. */
+    test: (bytes: Uint8Array, size: number) => boolean;
+}
+
+/**
+ * The number of bytes read from the start of each file: enough to reach the PE header of a Windows
+ * executable, which comes after its MS-DOS stub.
+ */
+const HEADER_LENGTH = 1024;
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+    return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function startsWithText(bytes: Uint8Array, text: string, offset = 0): boolean {
+    return startsWith(bytes, text.split('').map((char) => char.charCodeAt(0)), offset);
+}
+
+/**
+ * Many files start with `MZ`, so a Windows executable is only recognized by the `PE\0\0` header
+ * its MS-DOS header points to (with the little-endian offset at `0x3C`).
+ */
+function isPortableExecutable(bytes: Uint8Array): boolean {
+    if (!startsWithText(bytes, 'MZ') || bytes.length < 0x40) {
+        return false;
+    }
+    const peHeaderOffset = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0x3c, true);
+    return startsWithText(bytes, 'PE\0\0', peHeaderOffset);
+}
+
+/**
+ * Whether the bytes start with an MPEG audio frame header: 11 sync bits, then a version, layer,
+ * bitrate and sample rate which aren't reserved. Layer I isn't recognized, since it's practically
+ * unused and its headers (`FF FE`, `FF FF`) are also UTF-16's byte order marks.
+ */
+function isMpegAudioFrame(bytes: Uint8Array): boolean {
+    if (bytes.length < 3 || bytes[0] !== 0xff || bytes[1] < 0xe0) {
+        return false;
+    }
+    const version = Math.floor(bytes[1] / 8) % 4;
+    const layer = Math.floor(bytes[1] / 2) % 4;
+    const bitrateIndex = Math.floor(bytes[2] / 16);
+    const sampleRateIndex = Math.floor(bytes[2] / 4) % 4;
+    return version !== 1 && layer !== 0 && layer !== 3 && bitrateIndex !== 15 && sampleRateIndex !== 3;
+}
+
+/**
+ * Whether the bytes start with an ISO base media (MP4) or QuickTime atom of the given types: its
+ * big-endian size must fit in the file, so that text which happens to contain `free` or `wide`
+ * isn't mistaken for a video.
+ */
+function startsWithAtom(bytes: Uint8Array, size: number, atomTypes: string[]): boolean {
+    if (bytes.length < 8) {
+        return false;
+    }
+    const atomSize = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+    return atomSize >= 8 && atomSize <= size && atomTypes.some((atomType) => startsWithText(bytes, atomType, 4));
+}
+
+/** The formats `sniffContentType` can recognize. */
+export const contentTypeSignatures: IContentTypeSignature[] = [
+    {
+        type: 'image/png',
+        aliases: [],
+        extensions: [ '.png' ],
+        test: (bytes) => startsWith(bytes, [ 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a ])
+    },
+    {
+        type: 'image/jpeg',
+        aliases: [ 'image/jpg', 'image/pjpeg' ],
+        extensions: [ '.jpg', '.jpeg', '.jpe', '.jfif' ],
+        test: (bytes) => startsWith(bytes, [ 0xff, 0xd8, 0xff ])
+    },
+    {
+        type: 'image/gif',
+        aliases: [],
+        extensions: [ '.gif' ],
+        test: (bytes) => startsWithText(bytes, 'GIF87a') || startsWithText(bytes, 'GIF89a')
+    },
+    {
+        type: 'image/webp',
+        aliases: [],
+        extensions: [ '.webp' ],
+        test: (bytes) => startsWithText(bytes, 'RIFF') && startsWithText(bytes, 'WEBP', 8)
+    },
+    {
+        type: 'image/bmp',
+        aliases: [ 'image/x-ms-bmp' ],
+        extensions: [ '.bmp' ],
+        test: (bytes) => startsWithText(bytes, 'BM') && bytes.length >= 14 && bytes[6] === 0 && bytes[7] === 0
+    },
+    {
+        type: 'image/tiff',
+        aliases: [],
+        extensions: [ '.tif', '.tiff' ],
+        test: (bytes) => startsWith(bytes, [ 0x49, 0x49, 0x2a, 0x00 ]) || startsWith(bytes, [ 0x4d, 0x4d, 0x00, 0x2a ])
+    },
+    {
+        type: 'application/pdf',
+        aliases: [ 'application/x-pdf' ],
+        extensions: [ '.pdf' ],
+        test: (bytes) => startsWithText(bytes, '%PDF-')
+    },
+    {
+        // Office Open XML, OpenDocument, EPUB, JAR and APK files are all ZIP archives.
+        type: 'application/zip',
+        aliases: [
+            'application/x-zip-compressed',
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+            'application/vnd.oasis.opendocument.text',
+            'application/vnd.oasis.opendocument.spreadsheet',
+            'application/vnd.oasis.opendocument.presentation',
+            'application/epub+zip',
+            'application/java-archive',
+            'application/vnd.android.package-archive'
+        ],
+        extensions: [ '.zip', '.docx', '.xlsx', '.pptx', '.odt', '.ods', '.odp', '.epub', '.jar', '.apk' ],
+        test: (bytes) => [ [ 0x03, 0x04 ], [ 0x05, 0x06 ], [ 0x07, 0x08 ] ]
+            .some((marker) => startsWith(bytes, [ 0x50, 0x4b, ...marker ]))
+    },
+    {
+        type: 'application/gzip',
+        aliases: [ 'application/x-gzip' ],
+        extensions: [ '.gz', '.tgz' ],
+        test: (bytes) => startsWith(bytes, [ 0x1f, 0x8b ])
+    },
+    {
+        type: 'application/x-7z-compressed',
+        aliases: [],
+        extensions: [ '.7z' ],
+        test: (bytes) => startsWith(bytes, [ 0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c ])
+    },
+    {
+        type: 'application/vnd.rar',
+        aliases: [ 'application/x-rar-compressed' ],
+        extensions: [ '.rar' ],
+        test: (bytes) => startsWithText(bytes, 'Rar!')
+    },
+    {
+        type: 'audio/mpeg',
+        aliases: [ 'audio/mp3' ],
+        extensions: [ '.mp3' ],
+        test: (bytes) => startsWithText(bytes, 'ID3') || isMpegAudioFrame(bytes)
+    },
+    {
+        type: 'audio/wav',
+        aliases: [ 'audio/x-wav', 'audio/wave' ],
+        extensions: [ '.wav' ],
+        test: (bytes) => startsWithText(bytes, 'RIFF') && startsWithText(bytes, 'WAVE', 8)
+    },
+    {
+        type: 'audio/ogg',
+        aliases: [ 'video/ogg', 'application/ogg' ],
+        extensions: [ '.ogg', '.oga', '.ogv', '.opus' ],
+        test: (bytes) => startsWithText(bytes, 'OggS')
+    },
+    {
+        type: 'video/mp4',
+        aliases: [ 'video/quicktime', 'audio/mp4', 'video/x-m4v', 'image/heic', 'image/heif' ],
+        extensions: [ '.mp4', '.m4v', '.m4a', '.mov', '.heic', '.heif' ],
+        // Older QuickTime files start with another atom than `ftyp`.
+        test: (bytes, size) => startsWithAtom(bytes, size, [ 'ftyp', 'moov', 'mdat', 'wide', 'free', 'pnot' ])
+    },
+    {
+        type: 'application/x-msdownload',
+        aliases: [ 'application/x-msdos-program', 'application/vnd.microsoft.portable-executable' ],
+        extensions: [ '.exe', '.dll', '.scr', '.sys' ],
+        test: isPortableExecutable
+    },
+    {
+        type: 'application/x-executable',
+        aliases: [ 'application/x-elf', 'application/x-sharedlib' ],
+        extensions: [ '.elf', '.so' ],
+        test: (bytes) => startsWith(bytes, [ 0x7f, 0x45, 0x4c, 0x46 ])
+    },
+    {
+        type: 'application/x-mach-binary',
+        aliases: [],
+        extensions: [ '.dylib' ],
+        test: (bytes) => startsWith(bytes, [ 0xcf, 0xfa, 0xed, 0xfe ]) || startsWith(bytes, [ 0xce, 0xfa, 0xed, 0xfe ])
+    }
+];
+
+/**
+ * Read the first bytes of the file and return the signature of its format, or `null` if the
+ * format isn't one of `contentTypeSignatures` (e.g. plain text, which has no signature).
+ */
+export async function sniffContentType(file: Blob): Promise<IContentTypeSignature> {
+    const bytes = new Uint8Array(await readAsArrayBuffer(file.slice(0, HEADER_LENGTH)));
+    return contentTypeSignatures.find((signature) => signature.test(bytes, file.size)) || null;
+}
+
+/**
+ * Whether the file's declared type (or its extension, if the browser didn't report a type) is
+ * consistent with the format detected from its content.
+ */
+export function matchesContentTypeSignature(file: File, signature: IContentTypeSignature): boolean {
+    const declaredType = (file.type || '').toLowerCase();
+    if (declaredType && declaredType !== 'application/octet-stream') {
+        return declaredType === signature.type || signature.aliases.indexOf(declaredType) > -1;
+    }
+    const name = file.name.toLowerCase();
+    return signature.extensions.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * Return the signature of the format the file's declared type (or its extension, if the browser
+ * didn't report a type) claims it's in, or `null` if that format has no signature.
+ */
+export function getDeclaredContentTypeSignature(file: File): IContentTypeSignature {
+    return contentTypeSignatures.find((signature) => matchesContentTypeSignature(file, signature)) || null;
+}
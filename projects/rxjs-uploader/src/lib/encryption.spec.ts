@@ -0,0 +1,49 @@
+import { decryptBlob, encryptBlob } from './encryption';
+import { readAsArrayBuffer } from './helpers';
+
+describe('Encryption', () => {
+    const generateKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [ 'encrypt', 'decrypt' ]);
+    const readAsBytes = async (blob: Blob) => Array.from(new Uint8Array(await readAsArrayBuffer(blob)));
+
+    it('should encrypt blobs in chunks which decrypt to the original', async () => {
+        const key = await generateKey();
+        const original = new Blob([ 'The quick brown fox jumps over the lazy dog.' ], { type: 'text/plain' });
+        const { blob, encryption } = await encryptBlob(original, key, 16);
+
+        expect(blob.size).toBe(original.size + 3 * 16);
+        expect(encryption.originalSize).toBe(original.size);
+        expect(await readAsBytes(blob)).not.toEqual(await readAsBytes(original));
+
+        const decrypted = await decryptBlob(blob, key, encryption);
+        expect(decrypted.type).toBe('text/plain');
+        expect(await readAsBytes(decrypted)).toEqual(await readAsBytes(original));
+    });
+
+    it('should not hold the encrypted chunks in memory as array buffers', async () => {
+        const key = await generateKey();
+        const OriginalBlob = Blob;
+        const blobParts: BlobPart[][] = [];
+        // Not an arrow function, since the spy is called as a constructor.
+        spyOn(window, 'Blob').and.callFake(function(parts: BlobPart[], options: BlobPropertyBag) {
+            blobParts.push(parts);
+            return new OriginalBlob(parts, options);
+        });
+        await encryptBlob(new OriginalBlob([ 'The quick brown fox jumps over the lazy dog.' ]), key, 16);
+
+        const ciphertextParts = blobParts[blobParts.length - 1];
+        expect(ciphertextParts.length).toBe(3);
+        expect(ciphertextParts.every((part) => part instanceof OriginalBlob)).toBe(true);
+    });
+
+    it('should fail to decrypt truncated ciphertext', async () => {
+        const key = await generateKey();
+        const { blob, encryption } = await encryptBlob(new Blob([ 'The quick brown fox jumps over the lazy dog.' ]), key, 16);
+        let error: any;
+        try {
+            await decryptBlob(blob.slice(0, 2 * (16 + 16)), key, encryption);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeDefined();
+    });
+});
@@ -0,0 +1,85 @@
+import { fromBase64, readAsArrayBuffer, toBase64 } from './helpers';
+import { IFileEncryption } from './models/encryption-options';
+
+const ALGORITHM = 'AES-GCM';
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const IV_PREFIX_BYTES = 8;
+const TAG_BYTES = 16;
+
+/**
+ * Encrypts the file with AES-GCM, a chunk at a time so that large files don't have to fit in
+ * memory. Each chunk is encrypted with its own IV and authenticated separately, and the last chunk
+ * is marked as such, so that chunks which are removed, reordered or tampered with fail to decrypt.
+ * Resolves with the ciphertext and the metadata needed to decrypt it.
+ */
+export async function encryptBlob(
+    blob: Blob,
+    key: CryptoKey,
+    chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<{ blob: Blob, encryption: IFileEncryption }> {
+    const ivPrefix = crypto.getRandomValues(new Uint8Array(IV_PREFIX_BYTES));
+    // Each chunk is wrapped in a Blob as soon as it's encrypted, so that the browser can move it
+    // out of memory (e.g. to disk) instead of holding every chunk until the last one is done.
+    const encryptedChunks: Blob[] = [];
+    await forEachChunk(blob, chunkSize, async (chunk, index, isLast) => {
+        encryptedChunks.push(new Blob([
+            await crypto.subtle.encrypt(getChunkParams(ivPrefix, index, isLast), key, chunk)
+        ]));
+    });
+    return {
+        blob: new Blob(encryptedChunks, { type: 'application/octet-stream' }),
+        encryption: {
+            algorithm: ALGORITHM,
+            keyId: null,
+            iv: toBase64(ivPrefix),
+            chunkSize,
+            originalSize: blob.size,
+            originalType: blob.type
+        }
+    };
+}
+
+/** Decrypts a blob encrypted by `encryptBlob`, given the key and the metadata it resolved with. */
+export async function decryptBlob(
+    blob: Blob,
+    key: CryptoKey,
+    encryption: Pick<IFileEncryption, 'iv' | 'chunkSize'> & Partial<IFileEncryption>
+): Promise<Blob> {
+    const ivPrefix = fromBase64(encryption.iv);
+    const decryptedChunks: Blob[] = [];
+    await forEachChunk(blob, encryption.chunkSize + TAG_BYTES, async (chunk, index, isLast) => {
+        decryptedChunks.push(new Blob([
+            await crypto.subtle.decrypt(getChunkParams(ivPrefix, index, isLast), key, chunk)
+        ]));
+    });
+    return new Blob(decryptedChunks, { type: encryption.originalType || '' });
+}
+
+/** Reads the blob a chunk at a time, in order. An empty blob has one empty chunk. */
+async function forEachChunk(
+    blob: Blob,
+    chunkSize: number,
+    callback: (chunk: ArrayBuffer, index: number, isLast: boolean) => Promise<void>
+): Promise<void> {
+    let index = 0;
+    let offset = 0;
+    let isLast = false;
+    while (!isLast) {
+        const end = Math.min(offset + chunkSize, blob.size);
+        isLast = end >= blob.size;
+        await callback(await readAsArrayBuffer(blob.slice(offset, end)), index, isLast);
+        offset = end;
+        index++;
+    }
+}
+
+function getChunkParams(ivPrefix: Uint8Array, index: number, isLast: boolean): AesGcmParams {
+    const iv = new Uint8Array(IV_PREFIX_BYTES + 4);
+    iv.set(ivPrefix);
+    new DataView(iv.buffer).setUint32(IV_PREFIX_BYTES, index);
+    return {
+        name: ALGORITHM,
+        iv,
+        additionalData: new Uint8Array([ isLast ? 1 : 0 ])
+    };
+}
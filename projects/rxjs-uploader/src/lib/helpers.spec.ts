@@ -0,0 +1,57 @@
+import { formatBytes, getAcceptAttribute, getRetryDelayMs, isContentTypeAllowed } from './helpers';
+import { defaultRetryPolicy } from './models/retry-policy';
+
+describe('Content type rules', () => {
+    const png = new File(['test'], 'image.PNG', { type: 'image/png' });
+    const docx = new File(['test'], 'report.docx', { type: '' });
+
+    it('should match MIME types, wildcards and extensions', () => {
+        expect(isContentTypeAllowed(png, [ 'image/png' ])).toBe(true);
+        expect(isContentTypeAllowed(png, [ 'image/*' ])).toBe(true);
+        expect(isContentTypeAllowed(png, [ '.png' ])).toBe(true);
+        expect(isContentTypeAllowed(png, [ '*' ])).toBe(true);
+        expect(isContentTypeAllowed(png, [ 'video/*', '.jpg' ])).toBe(false);
+        expect(isContentTypeAllowed(docx, [ '.docx' ])).toBe(true);
+        expect(isContentTypeAllowed(docx, [ '.pdf' ])).toBe(false);
+    });
+
+    it('should reject files matching the deny-list', () => {
+        expect(isContentTypeAllowed(png, [ 'image/*' ], [ 'image/png' ])).toBe(false);
+        expect(isContentTypeAllowed(docx, [ '*' ], [ '.docx' ])).toBe(false);
+    });
+
+    it('should build the accept attribute from the same rules', () => {
+        expect(getAcceptAttribute([ 'image/*', ' .DOCX ', 'image/*' ])).toBe('image/*,.docx');
+        expect(getAcceptAttribute([ '*' ])).toBeNull();
+    });
+});
+
+describe('formatBytes', () => {
+    it('should format bytes in decimal units', () => {
+        expect(formatBytes(0)).toBe('0B');
+        expect(formatBytes(999)).toBe('999B');
+        expect(formatBytes(1500)).toBe('1.5KB');
+        expect(formatBytes(25 * 1000 * 1000)).toBe('25MB');
+    });
+});
+
+describe('getRetryDelayMs', () => {
+    const retryPolicy = { ...defaultRetryPolicy, jitter: 0 };
+    const retryAfter = (seconds: number) => ({
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { 'retry-after': `${seconds}` },
+        body: null
+    });
+
+    it('should back off exponentially', () => {
+        expect(getRetryDelayMs(retryPolicy, 1)).toBe(1000);
+        expect(getRetryDelayMs(retryPolicy, 3)).toBe(4000);
+    });
+
+    it('should wait as long as Retry-After asks, or not retry if that is longer than the maximum delay', () => {
+        expect(getRetryDelayMs(retryPolicy, 1, retryAfter(20))).toBe(20000);
+        expect(getRetryDelayMs(retryPolicy, 1, retryAfter(120))).toBeNull();
+        expect(getRetryDelayMs({ ...retryPolicy, maxDelayMs: 180000 }, 1, retryAfter(120))).toBe(120000);
+    });
+});
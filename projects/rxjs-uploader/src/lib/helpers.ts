@@ -1,3 +1,18 @@
+import { uniq } from 'lodash';
+import { defer, Observable } from 'rxjs';
+import { ProgressState } from './constants/progress-state';
+import { FileUpload } from './models/file-upload';
+import { IRetryPolicy } from './models/retry-policy';
+import { ITotalProgress } from './models/total-progress';
+import { IUploadInterceptor } from './models/upload-interceptor';
+import {
+    IUploadTransport,
+    IUploadTransportRequest,
+    IUploadTransportResponse,
+    UploadTransportEvent
+} from './models/upload-transport';
+import { FileUploadError } from './models/uploader-error';
+
 export function setAcceptAttribute(fileInputElement: HTMLInputElement, accept: string): void {
     // For iOS, the accept attribute is broken, not allowing some filetypes when they should be allowed.
     // Solution is to not set the accept attribute if user is on an iOS device.
@@ -6,3 +21,247 @@ export function setAcceptAttribute(fileInputElement: HTMLInputElement, accept: s
         fileInputElement.setAttribute('accept', accept);
     }
 }
+
+/**
+ * Whether the file matches a content type rule, written like an entry of an `accept` attribute:
+ * a MIME type (`image/png`), a wildcard (`image/*`, or `*` for anything) or an extension (`.docx`).
+ */
+export function matchesContentTypeRule(file: Pick<File, 'name' | 'type'>, rule: string): boolean {
+    const normalizedRule = normalizeContentTypeRule(rule);
+    const fileType = (file.type || '').toLowerCase();
+    if (!normalizedRule) {
+        return false;
+    }
+    if (normalizedRule === '*' || normalizedRule === '*/*') {
+        return true;
+    }
+    if (normalizedRule.charAt(0) === '.') {
+        return file.name.toLowerCase().endsWith(normalizedRule);
+    }
+    if (normalizedRule.slice(-2) === '/*') {
+        return fileType.indexOf(normalizedRule.slice(0, -1)) === 0;
+    }
+    return fileType === normalizedRule;
+}
+
+/**
+ * Whether the file is allowed by the content type rules: it must match one of
+ * `allowedContentTypes` and none of `disallowedContentTypes`.
+ */
+export function isContentTypeAllowed(
+    file: Pick<File, 'name' | 'type'>,
+    allowedContentTypes: string[],
+    disallowedContentTypes: string[] = []
+): boolean {
+    if (disallowedContentTypes.some((rule) => matchesContentTypeRule(file, rule))) {
+        return false;
+    }
+    if (allowedContentTypes.some((rule) => matchesContentTypeRule(file, rule))) {
+        return true;
+    }
+    // FIXME(dmayerdesign): Look into why File.type is sometimes empty in Edge.
+    // As a result, when the fileType is empty, we need to admit we don't know anything
+    // about the file type and let MIME type rules pass (extension rules still apply).
+    return file.type === '' && allowedContentTypes.some((rule) => {
+        const normalizedRule = normalizeContentTypeRule(rule);
+        return !!normalizedRule && normalizedRule.charAt(0) !== '.';
+    });
+}
+
+/** Returns the value of the `accept` attribute for the content type rules, or `null` if any file is allowed. */
+export function getAcceptAttribute(allowedContentTypes: string[]): string {
+    const normalizedRules = allowedContentTypes
+        .map(normalizeContentTypeRule)
+        .filter((rule) => !!rule);
+    if (!normalizedRules.length || normalizedRules.some((rule) => rule === '*' || rule === '*/*')) {
+        return null;
+    }
+    return uniq(normalizedRules).join(',');
+}
+
+function normalizeContentTypeRule(rule: string): string {
+    return (rule || '').trim().toLowerCase();
+}
+
+export function readAsArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as ArrayBuffer);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(blob);
+    });
+}
+
+export function readAsText(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsText(blob);
+    });
+}
+
+/** Resolves with the decoded image, or rejects if the browser can't decode it. */
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(image);
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('The image could not be decoded.'));
+        };
+        image.src = url;
+    });
+}
+
+export function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+        .map((byte) => `0${byte.toString(16)}`.slice(-2))
+        .join('');
+}
+
+export function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode.apply(null, Array.from(bytes)));
+}
+
+export function fromBase64(base64: string): Uint8Array {
+    return new Uint8Array(Array.from(atob(base64)).map((character) => character.charCodeAt(0)));
+}
+
+/** Formats a number of bytes in decimal units, like `fileSizeLimitMb` (e.g. `1.5MB`). */
+export function formatBytes(bytes: number): string {
+    const units = [ 'B', 'KB', 'MB', 'GB', 'TB' ];
+    let unitIndex = 0;
+    let value = bytes;
+    while (value >= 1000 && unitIndex < units.length - 1) {
+        value /= 1000;
+        unitIndex++;
+    }
+    return `${parseFloat(value.toFixed(1))}${units[unitIndex]}`;
+}
+
+/** The default `isSuccess`: an upload succeeded if its response's status is `2xx`, or a `3xx` redirect. */
+export function isSuccessResponse(response: IUploadTransportResponse): boolean {
+    return /^[23]/.test(`${response.status}`);
+}
+
+export function isRetryable(
+    retryPolicy: IRetryPolicy,
+    fileUpload: FileUpload,
+    response?: IUploadTransportResponse,
+    error?: FileUploadError
+): boolean {
+    if (typeof retryPolicy.shouldRetry === 'function') {
+        return retryPolicy.shouldRetry(fileUpload, response, error);
+    }
+    if (response) {
+        return retryPolicy.retryableStatusCodes.indexOf(response.status) > -1;
+    }
+    return retryPolicy.retryOnNetworkError;
+}
+
+/**
+ * Returns the number of milliseconds to wait after the given failed attempt (starting from `1`)
+ * before trying again, or `null` if the server's `Retry-After` asks for a longer wait than
+ * `maxDelayMs`, in which case retrying any earlier would likely be refused too.
+ */
+export function getRetryDelayMs(
+    retryPolicy: IRetryPolicy,
+    attempt: number,
+    response?: IUploadTransportResponse
+): number {
+    const { initialDelayMs, backoffMultiplier, maxDelayMs, jitter, respectRetryAfter } = retryPolicy;
+    const retryAfterMs = respectRetryAfter && response ? parseRetryAfter(response.headers['retry-after']) : null;
+    if (retryAfterMs !== null) {
+        return retryAfterMs > maxDelayMs ? null : retryAfterMs;
+    }
+    const delayMs = Math.min(initialDelayMs * Math.pow(backoffMultiplier, attempt - 1), maxDelayMs);
+    return Math.round(delayMs * (1 - jitter * Math.random()));
+}
+
+/** Parses a `Retry-After` header, which contains either a number of seconds or a date. */
+function parseRetryAfter(retryAfter: string): number {
+    if (!retryAfter) {
+        return null;
+    }
+    if (/^\d+$/.test(retryAfter.trim())) {
+        return parseInt(retryAfter, 10) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Returns a transport which passes each of the `FileUpload`'s requests through the interceptors, in order. */
+export function interceptTransport<FileUploadType extends FileUpload>(
+    transport: IUploadTransport,
+    interceptors: IUploadInterceptor<FileUploadType>[],
+    fileUpload: FileUploadType
+): IUploadTransport {
+    if (!interceptors.length) {
+        return transport;
+    }
+    const handle = (index: number, request: IUploadTransportRequest): Observable<UploadTransportEvent> =>
+        index < interceptors.length
+            ? interceptors[index].intercept(request, fileUpload, {
+                handle: (nextRequest) => defer(() => handle(index + 1, nextRequest))
+            })
+            : transport.send(request);
+    // Run the chain when the request is sent, and again each time it's retried.
+    return { send: (request) => defer(() => handle(0, request)) };
+}
+
+/** Combine the progress of several `FileUpload`s, weighting each one by its size. */
+export function getTotalProgress(fileUploads: FileUpload[]): ITotalProgress {
+    const totalProgress: ITotalProgress = {
+        percent: 0,
+        stateCounts: {
+            [ProgressState.NotStarted]: 0,
+            [ProgressState.Idle]: 0,
+            [ProgressState.InProgress]: 0,
+            [ProgressState.Completed]: 0,
+            [ProgressState.Failed]: 0,
+            [ProgressState.Cancelled]: 0,
+            [ProgressState.Queued]: 0,
+            [ProgressState.Rejected]: 0
+        },
+        bytesLoaded: 0,
+        bytesTotal: 0,
+        bytesPerSecond: 0,
+        secondsRemaining: null
+    };
+
+    fileUploads.forEach((fileUpload) => {
+        const { progress } = fileUpload;
+        totalProgress.stateCounts[progress.state]++;
+        if (fileUpload.failed || progress.state === ProgressState.Cancelled) {
+            return;
+        }
+        // Progress is reported in terms of the file before it was compressed.
+        const fileSize = fileUpload.compression ? fileUpload.compression.originalSize : fileUpload.file.size;
+        const bytesTotal = progress.bytesTotal || fileSize;
+        totalProgress.bytesTotal += bytesTotal;
+        if (progress.state === ProgressState.Completed) {
+            totalProgress.bytesLoaded += bytesTotal;
+        } else if (typeof progress.bytesLoaded === 'number') {
+            totalProgress.bytesLoaded += progress.bytesLoaded;
+        }
+        if (progress.state === ProgressState.InProgress) {
+            totalProgress.bytesPerSecond += progress.bytesPerSecond || 0;
+        }
+    });
+
+    const bytesRemaining = totalProgress.bytesTotal - totalProgress.bytesLoaded;
+    if (totalProgress.bytesTotal) {
+        totalProgress.percent = Math.round(100 * totalProgress.bytesLoaded / totalProgress.bytesTotal);
+    }
+    if (bytesRemaining <= 0) {
+        totalProgress.secondsRemaining = 0;
+    } else if (totalProgress.bytesPerSecond > 0) {
+        totalProgress.secondsRemaining = bytesRemaining / totalProgress.bytesPerSecond;
+    }
+    return totalProgress;
+}
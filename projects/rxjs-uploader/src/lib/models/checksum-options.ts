@@ -0,0 +1,36 @@
+import { FileUpload } from './file-upload';
+import { IUploadTransportResponse } from './upload-transport';
+
+export enum ChecksumAlgorithm {
+    Md5 = 'md5',
+    Sha256 = 'sha256'
+}
+
+export enum ChecksumEncoding {
+    /** Lower-case hexadecimal (e.g. for an `ETag`). The default. */
+    Hex = 'hex',
+    /** Base64 (e.g. for `Content-MD5` or `x-amz-checksum-sha256`). */
+    Base64 = 'base64'
+}
+
+export interface IChecksumOptions<FileUploadType extends FileUpload = FileUpload> {
+    algorithm: ChecksumAlgorithm;
+    /** Defaults to `ChecksumEncoding.Hex`. */
+    encoding?: ChecksumEncoding;
+    /**
+     * The name of a request header to send the checksum in (e.g. `'Content-MD5'`). It isn't sent
+     * with an upload strategy, since its requests don't contain the whole file.
+     */
+    header?: string;
+    /** The name of a form field to send the checksum in, if the file isn't uploaded as the body. */
+    formField?: string;
+    /**
+     * The name of the response header in which the server echoes the checksum of the bytes it
+     * stored, or a function which reads it from the response. If the server's checksum doesn't
+     * match, the upload fails with a `ChecksumMismatchError`. If there's no checksum in the
+     * response, the upload isn't verified.
+     */
+    responseChecksum?: string | ((response: IUploadTransportResponse, fileUpload: FileUploadType) => string);
+    /** The number of bytes read and hashed at a time. Defaults to 2MiB. */
+    chunkSize?: number;
+}
@@ -0,0 +1,47 @@
+export enum CompressionFormat {
+    Gzip = 'gzip',
+    /** The zlib format, which is what `Content-Encoding: deflate` means. */
+    Deflate = 'deflate'
+}
+
+/**
+ * Files are only compressed when they're uploaded as the request body (`setUploadFileAsBody(true)`)
+ * without an upload strategy, since `Content-Encoding` describes the whole request body, not one
+ * part of a form or a slice of the file. An upload strategy's chunks would each be a slice of one
+ * compressed stream: a compressed object, not a transport encoding the server could undo per
+ * request. Otherwise, these options are ignored.
+ */
+export interface ICompressionOptions {
+    /** Defaults to `CompressionFormat.Gzip`. */
+    format?: CompressionFormat;
+    /**
+     * Content type rules, like `allowedContentTypes`, for the files to compress. Defaults to
+     * `defaultCompressionContentTypes`: files which are already compressed (e.g. images, videos
+     * and archives) don't get any smaller.
+     */
+    contentTypes?: string[];
+    /** The number of bytes read and compressed at a time, when `CompressionStream` isn't available. Defaults to 1MiB. */
+    chunkSize?: number;
+}
+
+/** How a file was compressed before it was uploaded. */
+export interface IFileCompression {
+    format: CompressionFormat;
+    /** The size of the file before it was compressed. */
+    originalSize: number;
+}
+
+export const defaultCompressionContentTypes = [
+    'text/*',
+    'application/json',
+    'application/xml',
+    'application/javascript',
+    'image/svg+xml',
+    '.csv',
+    '.tsv',
+    '.log',
+    '.txt',
+    '.json',
+    '.ndjson',
+    '.xml'
+];
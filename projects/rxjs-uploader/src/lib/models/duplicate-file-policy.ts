@@ -0,0 +1,27 @@
+/** How `Uploader` decides whether a newly-added file is the same as one it already has. */
+export enum DuplicateFileDetection {
+    /** Files with the same name, size and `lastModified` date are the same. */
+    Metadata = 'metadata',
+    /**
+     * Files with the same SHA-256 hash of their content are the same, whatever their names. Every
+     * file is read in full, a chunk at a time. Files which can't be read are compared by `Metadata`.
+     */
+    ContentHash = 'contentHash'
+}
+
+/** What `Uploader` does when a file is added which is the same as one it already has. */
+export enum DuplicateFileAction {
+    /** Drop the new file. */
+    Ignore = 'ignore',
+    /** Remove the existing `FileUpload` (aborting its upload, if it's in progress) and keep the new one. */
+    Replace = 'replace',
+    /** Drop the new file and emit a `DuplicateFileError`. */
+    Reject = 'reject'
+}
+
+export interface IDuplicateFilePolicy {
+    /** Defaults to `DuplicateFileDetection.Metadata`. */
+    detectBy?: DuplicateFileDetection;
+    /** Defaults to `DuplicateFileAction.Reject`. */
+    action?: DuplicateFileAction;
+}
@@ -0,0 +1,37 @@
+import { FileUpload } from './file-upload';
+
+export interface IEncryptionKey {
+    /** An AES-GCM key which can `encrypt`. */
+    key: CryptoKey;
+    /** Identifies the key, so that whoever downloads the file knows which key decrypts it. */
+    keyId?: string;
+}
+
+export interface IEncryptionOptions<FileUploadType extends FileUpload = FileUpload> {
+    /** Resolves with the key to encrypt the file with. Called once for each file. */
+    getKey: (fileUpload: FileUploadType) => Promise<IEncryptionKey>;
+    /** The number of bytes read and encrypted at a time. Defaults to 1MiB. */
+    chunkSize?: number;
+}
+
+/**
+ * How a file was encrypted, to be sent along with it (e.g. as headers set by the
+ * `requestOptionsFactory`) and passed to `decryptBlob` to decrypt it.
+ */
+export interface IFileEncryption {
+    /** Always `'AES-GCM'`. */
+    algorithm: string;
+    /** The `keyId` of the key the file was encrypted with, if any. */
+    keyId: string;
+    /**
+     * The base64-encoded random 8-byte prefix of each chunk's IV. The last 4 bytes of the IV are
+     * the index of the chunk, as a big-endian integer.
+     */
+    iv: string;
+    /** The number of bytes of the file in each chunk, except the last which may have fewer. */
+    chunkSize: number;
+    /** The size of the file before it was encrypted. */
+    originalSize: number;
+    /** The content type of the file before it was encrypted. */
+    originalType: string;
+}
@@ -0,0 +1,11 @@
+import { FileUpload } from './file-upload';
+
+export interface IFilePreprocessor<FileUploadType extends FileUpload = FileUpload> {
+    /**
+     * Transform the file before it's uploaded (e.g. resize an image). Resolves with the file to
+     * upload instead, or with the same file to leave it as it is. `Uploader` sets the result as
+     * `fileUpload.file`, keeping the selected file as `fileUpload.originalFile`.
+     * It's called once, before the first attempt; retries upload the processed file.
+     */
+    process(file: File, fileUpload: FileUploadType): Promise<File>;
+}
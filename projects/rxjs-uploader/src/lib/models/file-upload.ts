@@ -1,22 +1,43 @@
-import { BehaviorSubject, Observable } from 'rxjs';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
 import { ProgressState } from '../constants/progress-state';
+import { createThumbnail, hasPreviewUrl, readTextPreview } from '../preview';
+import { IFileCompression } from './compression-options';
+import { IFileEncryption } from './encryption-options';
 import { IProgress } from './progress';
 import { IUploadRequestOptions } from './upload-request-options';
+import { FileUploadError } from './uploader-error';
 import { HttpMethod } from './http-method';
 
-const uploadSuccessOrRedirectCode = /^[23]/;
-
-export interface IFileUpload {
+/** `TResponse` is the type of `responseBody`, once the response has been parsed. */
+export interface IFileUpload<TResponse = any> {
     /** The state and percentage of the file's upload progress. */
     progress: IProgress;
+    /** The file which was selected, before any of the `Uploader`'s `preprocessors` replaced `file`. */
+    originalFile: File;
     /** The response, if any, returned from the HTTP upload call. */
     response: Response;
     /** The code from the HTTP response, if any (e.g. `200`). */
     responseCode: number;
-    /** The HTTP response body, if any. */
-    responseBody: any;
+    /** The HTTP response body, if any, parsed according to the `Uploader`'s `responseType`. */
+    responseBody: TResponse;
+    /** The HTTP response headers, if any, with lower-cased names. */
+    responseHeaders: { [key: string]: string };
+    /** The reason the upload failed, if it did (e.g. an `UploadHttpError` or `UploadNetworkError`). */
+    error: FileUploadError;
+    /** A message describing why the upload failed, if it did. See `IUploaderConfig.uploadErrorMessage`. */
+    errorMessage: string;
+    /** The reasons the file was rejected before being uploaded, if it was. See `IUploaderConfig.validators`. */
+    validationErrors: FileUploadError[];
+    /** The checksum of `file`, computed before it's uploaded. See `IUploaderConfig.checksumOptions`. */
+    checksum: string;
+    /** How `file` was compressed before it was uploaded, if it was. See `IUploaderConfig.compressionOptions`. */
+    compression: IFileCompression;
+    /** How `file` was encrypted before it was uploaded, if it was. See `IUploaderConfig.encryptionOptions`. */
+    encryption: IFileEncryption;
     /** Set to `true` the first time the file upload is executed. */
     uploadHasStarted: boolean;
+    /** The number of times the upload has been attempted since the `FileUpload` was created or reset. */
+    attemptCount: number;
     /** Receives a value every time the FileUpload is supposed to execute its HTTP upload. */
     executeStream: Observable<void>;
     /**
@@ -24,15 +45,29 @@ export interface IFileUpload {
      * from memory and cancel the upload if one is pending.
      */
     isMarkedForRemovalStream: Observable<boolean>;
+    /** Receives `true` when `pause()` is called and `false` when `resume()` is called. */
+    isPausedStream: Observable<boolean>;
+    /** Receives a value when `cancel()` is called, telling `Uploader` to abort the upload. */
+    cancelStream: Observable<void>;
 
     /** Returns the value passed to `setRequestOptions()`. */
     readonly requestOptions: IUploadRequestOptions;
+    /**
+     * An object URL of `originalFile`, if it's an image or a video, for showing it in an `<img>` or
+     * `<video>`. Created the first time it's read, and revoked when the `FileUpload` is removed,
+     * after which it's `null`.
+     */
+    readonly previewUrl: string;
     /** A unique identifier for the `FileUpload`. */
     readonly id: Symbol;
     /** The `name` taken from `file.name`. */
     readonly name: string;
     /** Percentage of the upload that has been completed. */
     readonly progressPercentage: number;
+    /** Boolean indicating whether the upload is waiting for `Uploader` to start it. */
+    readonly queued: boolean;
+    /** Boolean indicating whether the upload has been paused. */
+    readonly paused: boolean;
     /** Boolean indicating whether an upload is in progress. */
     readonly uploading: boolean;
     /** Boolean indicating whether the upload has completed, either successfully or not. */
@@ -41,7 +76,12 @@ export interface IFileUpload {
     readonly succeeded: boolean;
     /** Boolean indicating whether the upload has failed. */
     readonly failed: boolean;
-    /** Boolean indicating whether the upload has been marked as a failure by `Uploader`. */
+    /** Boolean indicating whether the upload was cancelled by calling `cancel()`. */
+    readonly cancelled: boolean;
+    /**
+     * Boolean indicating whether the upload has been marked as a failure by `Uploader` (e.g. because
+     * the file didn't pass validation).
+     */
     readonly rejected: boolean;
     /** Boolean indicating whether the `FileUpload` has been marked for deletion by `Uploader`. */
     readonly isMarkedForRemoval: boolean;
@@ -61,13 +101,37 @@ export interface IFileUpload {
     reset(): void;
     /** Executes the file upload. */
     retry(): void;
+    /**
+     * Stops the upload, if it hasn't finished, until `resume()` is called. The `FileUpload`'s
+     * state becomes `ProgressState.Idle`.
+     */
+    pause(): void;
+    /**
+     * Continues a paused upload, from the last byte the server acknowledged if the upload strategy
+     * supports it (e.g. `TusUploadStrategy`) or from the start otherwise.
+     */
+    resume(): void;
+    /**
+     * Aborts the upload, if it has started and hasn't finished, but keeps the `FileUpload` with a
+     * state of `ProgressState.Cancelled`. Call `retry()` to upload it again.
+     */
+    cancel(): void;
+    /**
+     * Resolves with a data URL of `originalFile`, scaled down to fit within `maxSize` pixels square,
+     * or `null` if it isn't an image the browser can decode.
+     */
+    getThumbnail(maxSize?: number): Promise<string>;
+    /** Resolves with the first lines of `originalFile`, or `null` if it isn't a text file. */
+    getTextPreview(maxLines?: number): Promise<string>;
+    /** Revokes `previewUrl` and forgets the previews. `Uploader` calls it when the `FileUpload` is removed. */
+    revokePreviews(): void;
     /** Used by `Uploader` to mark the `FileUpload` for deletion. */
     markForRemoval(): void;
     /** Alias for {@link IFileUpload#markForRemoval}` */
     remove(): void;
 }
 
-export class FileUpload implements IFileUpload {
+export class FileUpload<TResponse = any> implements IFileUpload<TResponse> {
     // Private variables.
     private _id: Symbol;
     private _rejected?: boolean;
@@ -78,21 +142,39 @@ export class FileUpload implements IFileUpload {
     };
     private _executeSubject = new BehaviorSubject<void>(null);
     private _isMarkedForRemovalSubject = new BehaviorSubject<boolean>(false);
+    private _isPausedSubject = new BehaviorSubject<boolean>(false);
+    private _cancelSubject = new Subject<void>();
+    private _previewUrl: string = null;
+    private _arePreviewsRevoked = false;
+    private _thumbnails: { [maxSize: number]: Promise<string> } = {};
+    private _textPreviews: { [maxLines: number]: Promise<string> } = {};
 
     // Public API.
     public progress: IProgress = {
         percent: 0,
         state: ProgressState.NotStarted
     };
+    public originalFile: File;
     public response: Response;
     public responseCode: number;
-    public responseBody: any;
+    public responseBody: TResponse;
+    public responseHeaders: { [key: string]: string } = {};
+    public error: FileUploadError = null;
+    public errorMessage: string = null;
+    public validationErrors: FileUploadError[] = [];
+    public checksum: string = null;
+    public compression: IFileCompression = null;
+    public encryption: IFileEncryption = null;
     public uploadHasStarted = false;
+    public attemptCount = 0;
     public executeStream: Observable<void> = this._executeSubject.asObservable();
     public isMarkedForRemovalStream: Observable<boolean> = this._isMarkedForRemovalSubject.asObservable();
+    public isPausedStream: Observable<boolean> = this._isPausedSubject.asObservable();
+    public cancelStream: Observable<void> = this._cancelSubject.asObservable();
 
     constructor(public file: File, id?: Symbol) {
         this._id = id || Symbol(file.name);
+        this.originalFile = file;
     }
 
     // Getters.
@@ -100,6 +182,14 @@ export class FileUpload implements IFileUpload {
         return this._requestOptions;
     }
 
+    public get previewUrl(): string {
+        // Once revoked, a new object URL would never be revoked, so there's no preview anymore.
+        if (!this._previewUrl && !this._arePreviewsRevoked && this.originalFile && hasPreviewUrl(this.originalFile)) {
+            this._previewUrl = URL.createObjectURL(this.originalFile);
+        }
+        return this._previewUrl;
+    }
+
     public get id(): Symbol {
         return this._id;
     }
@@ -112,6 +202,14 @@ export class FileUpload implements IFileUpload {
         return this.progress.percent;
     }
 
+    public get queued(): boolean {
+        return this.progress.state === ProgressState.Queued;
+    }
+
+    public get paused(): boolean {
+        return this._isPausedSubject.getValue();
+    }
+
     public get uploading(): boolean {
         return !this.uploaded && !this.failed && this.progress.state === ProgressState.InProgress;
     }
@@ -125,15 +223,12 @@ export class FileUpload implements IFileUpload {
     }
 
     public get failed(): boolean {
-        if (!!this.response) {
-            if (this.response && this.response.status) {
-                return !this.response.status.toString().match(uploadSuccessOrRedirectCode);
-            }
-        }
-        if (!!this.responseCode) {
-            return !this.responseCode.toString().match(uploadSuccessOrRedirectCode);
-        }
-        return this.progress.state === ProgressState.Failed || this.rejected;
+        // `Uploader` decides whether the response means success, according to its `isSuccess` option.
+        return this.progress.state === ProgressState.Failed || !!this.rejected;
+    }
+
+    public get cancelled(): boolean {
+        return this.progress.state === ProgressState.Cancelled;
     }
 
     public get rejected(): boolean {
@@ -190,11 +285,18 @@ export class FileUpload implements IFileUpload {
     }
 
     public reset(): void {
-        this._rejected = false;
+        // Validation errors are about the file itself, so a rejected file stays rejected.
+        const isInvalid = this.validationErrors.length > 0;
+        this._rejected = isInvalid;
         this.response = null;
         this.responseBody = null;
+        this.responseHeaders = {};
         this.responseCode = null;
-        this.progress.state = ProgressState.NotStarted;
+        this.error = isInvalid ? this.validationErrors[0] : null;
+        this.errorMessage = isInvalid ? this.error.message : null;
+        this.attemptCount = 0;
+        this._isPausedSubject.next(false);
+        this.progress.state = isInvalid ? ProgressState.Rejected : ProgressState.NotStarted;
         this.progress.percent = 0;
     }
 
@@ -202,6 +304,49 @@ export class FileUpload implements IFileUpload {
         this._executeSubject.next(null);
     }
 
+    public pause(): void {
+        if (!this.uploaded && !this.failed) {
+            this._isPausedSubject.next(true);
+        }
+    }
+
+    public resume(): void {
+        this._isPausedSubject.next(false);
+    }
+
+    public cancel(): void {
+        if (this.uploadHasStarted && !this.uploaded && !this.failed && !this.cancelled) {
+            // Recorded in the state too, so it isn't lost if nothing is listening to `cancelStream` yet.
+            this.progress = { ...this.progress, state: ProgressState.Cancelled };
+            this._cancelSubject.next(null);
+            this._isPausedSubject.next(false);
+        }
+    }
+
+    public getThumbnail(maxSize = 200): Promise<string> {
+        if (!this._thumbnails[maxSize]) {
+            this._thumbnails[maxSize] = createThumbnail(this.originalFile, maxSize);
+        }
+        return this._thumbnails[maxSize];
+    }
+
+    public getTextPreview(maxLines = 5): Promise<string> {
+        if (!this._textPreviews[maxLines]) {
+            this._textPreviews[maxLines] = readTextPreview(this.originalFile, maxLines);
+        }
+        return this._textPreviews[maxLines];
+    }
+
+    public revokePreviews(): void {
+        this._arePreviewsRevoked = true;
+        if (this._previewUrl) {
+            URL.revokeObjectURL(this._previewUrl);
+            this._previewUrl = null;
+        }
+        this._thumbnails = {};
+        this._textPreviews = {};
+    }
+
     public markForRemoval(): void {
         this._isMarkedForRemovalSubject.next(true);
     }
@@ -0,0 +1,15 @@
+import { FileUpload } from './file-upload';
+import { FileUploadError } from './uploader-error';
+
+/** What a `FileValidator` returns: the reasons the file is invalid, or nothing if it's valid. */
+export type FileValidatorResult = FileUploadError | FileUploadError[] | null | void;
+
+/**
+ * Checks a file before it's uploaded. Validators run after the size and content type checks,
+ * and may be async (e.g. to read an image's dimensions). Throwing, or rejecting, counts as
+ * returning a `FileValidationError` with the thrown error's message.
+ */
+export type FileValidator<FileUploadType extends FileUpload = FileUpload> = (
+    file: File,
+    fileUpload: FileUploadType
+) => Promise<FileValidatorResult> | FileValidatorResult;
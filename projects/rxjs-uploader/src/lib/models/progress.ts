@@ -3,4 +3,12 @@ import { ProgressState } from '../constants/progress-state';
 export interface IProgress {
     percent: number;
     state: ProgressState;
+    /** The number of bytes sent so far. Set once the upload reports progress. */
+    bytesLoaded?: number;
+    /** The total number of bytes to send (including any multipart form overhead). */
+    bytesTotal?: number;
+    /** The throughput, averaged over the last few seconds. */
+    bytesPerSecond?: number;
+    /** The estimated number of seconds until the upload completes, or `null` if unknown. */
+    secondsRemaining?: number;
 }
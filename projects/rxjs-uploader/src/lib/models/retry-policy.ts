@@ -0,0 +1,45 @@
+import { FileUpload } from './file-upload';
+import { IUploadTransportResponse } from './upload-transport';
+import { FileUploadError } from './uploader-error';
+
+export interface IRetryPolicy {
+    /** The maximum number of attempts, including the first one. Defaults to `3`. */
+    maxAttempts?: number;
+    /** Milliseconds to wait before the first retry. Defaults to `1000`. */
+    initialDelayMs?: number;
+    /** The delay is multiplied by this after each retry. Defaults to `2`. */
+    backoffMultiplier?: number;
+    /** The longest delay between two attempts. Defaults to `30000`. */
+    maxDelayMs?: number;
+    /**
+     * The fraction of each delay which is randomized, so that many failed uploads don't all retry
+     * at the same moment. `0` means no jitter and `1` means anywhere between 0 and the full delay.
+     * Defaults to `0.5`.
+     */
+    jitter?: number;
+    /** HTTP status codes which are retried. Defaults to `[408, 429, 500, 502, 503, 504]`. */
+    retryableStatusCodes?: number[];
+    /** Whether requests which fail without a response (e.g. a network error) are retried. Defaults to `true`. */
+    retryOnNetworkError?: boolean;
+    /**
+     * Whether the delay requested by a `Retry-After` response header is used. If it's longer than
+     * `maxDelayMs`, the upload fails instead of being retried too early. Defaults to `true`.
+     */
+    respectRetryAfter?: boolean;
+    /**
+     * Decides whether a failed attempt is retried, replacing the checks against
+     * `retryableStatusCodes` and `retryOnNetworkError`. `maxAttempts` still applies.
+     */
+    shouldRetry?: (fileUpload: FileUpload, response?: IUploadTransportResponse, error?: FileUploadError) => boolean;
+}
+
+export const defaultRetryPolicy: IRetryPolicy = {
+    maxAttempts: 3,
+    initialDelayMs: 1000,
+    backoffMultiplier: 2,
+    maxDelayMs: 30000,
+    jitter: 0.5,
+    retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+    retryOnNetworkError: true,
+    respectRetryAfter: true
+};
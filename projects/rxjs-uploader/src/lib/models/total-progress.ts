@@ -0,0 +1,17 @@
+import { ProgressState } from '../constants/progress-state';
+
+/** The combined progress of every `FileUpload` in the stream returned by `streamFileUploads`. */
+export interface ITotalProgress {
+    /** The percentage of bytes sent, weighted by file size. */
+    percent: number;
+    /** The number of `FileUpload`s in each `ProgressState`. */
+    stateCounts: { [state in ProgressState]: number };
+    /** The number of bytes sent so far. Failed and cancelled uploads aren't counted. */
+    bytesLoaded: number;
+    /** The total number of bytes to send. Failed and cancelled uploads aren't counted. */
+    bytesTotal: number;
+    /** The combined throughput of every upload in progress. */
+    bytesPerSecond: number;
+    /** The estimated number of seconds until every upload completes, or `null` if unknown. */
+    secondsRemaining: number;
+}
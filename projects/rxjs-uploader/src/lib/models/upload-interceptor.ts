@@ -0,0 +1,25 @@
+import { Observable } from 'rxjs';
+import { FileUpload } from './file-upload';
+import { IUploadTransportRequest, UploadTransportEvent } from './upload-transport';
+
+/** Passes a request on to the next interceptor in the chain or, after the last one, the transport. */
+export interface IUploadHandler {
+    handle(request: IUploadTransportRequest): Observable<UploadTransportEvent>;
+}
+
+export interface IUploadInterceptor<FileUploadType extends FileUpload = FileUpload> {
+    /**
+     * Called with each request sent for the `FileUpload` (including the requests an
+     * `IUploadStrategy` sends), in the order the interceptors were given, when the request is
+     * about to be sent. Returns the events to handle instead of the transport's, following the
+     * contract of `IUploadTransport#send`. To change the request (e.g. to add a header), call
+     * `next.handle()` with a copy; to change or reject the response before the `FileUpload` sees it,
+     * map or throw from the returned events; to short-circuit, return events without calling
+     * `next.handle()`. A `FileUploadError` thrown here becomes the upload's `error`.
+     */
+    intercept(
+        request: IUploadTransportRequest,
+        fileUpload: FileUploadType,
+        next: IUploadHandler
+    ): Observable<UploadTransportEvent>;
+}
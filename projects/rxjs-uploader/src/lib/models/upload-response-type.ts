@@ -0,0 +1,18 @@
+import { FileUpload } from './file-upload';
+import { IUploadTransportResponse } from './upload-transport';
+
+/** How `Uploader` parses the body of each upload's response into `fileUpload.responseBody`. */
+export enum UploadResponseType {
+    /** Parse the body as JSON, falling back to the unparsed body if it isn't valid JSON. The default. */
+    Json = 'json',
+    /** Leave the body as a string. */
+    Text = 'text',
+    /** Read the body as a `Blob`. */
+    Blob = 'blob'
+}
+
+/** Parses the body of an upload's response into `fileUpload.responseBody`. */
+export type UploadResponseParser<FileUploadType extends FileUpload = FileUpload> = (
+    response: IUploadTransportResponse,
+    fileUpload: FileUploadType
+) => FileUploadType['responseBody'];
@@ -0,0 +1,20 @@
+import { Observable } from 'rxjs';
+import { FileUpload } from './file-upload';
+import { UploaderError } from './uploader-error';
+import { IUploadTransport, UploadTransportEvent } from './upload-transport';
+
+export interface IUploadStrategy<FileUploadType extends FileUpload = FileUpload> {
+    /**
+     * Errors which happen outside of an upload attempt (e.g. failing to clean up a cancelled upload).
+     * `Uploader` re-emits them on its own `errorStream`.
+     */
+    errorStream?: Observable<UploaderError>;
+    /**
+     * Upload the `FileUpload`'s file using one or more requests sent through `transport`.
+     * The returned observable follows the same contract as `IUploadTransport#send`: progress
+     * events (with `loaded` and `total` relative to the whole file), then exactly one complete
+     * event carrying the response that determines the outcome of the upload.
+     * It's subscribed to again each time the upload is retried.
+     */
+    upload(fileUpload: FileUploadType, transport: IUploadTransport): Observable<UploadTransportEvent>;
+}
@@ -0,0 +1,52 @@
+import { Observable } from 'rxjs';
+import { HttpMethod } from './http-method';
+
+export enum UploadTransportEventType {
+    Progress = 'progress',
+    Complete = 'complete'
+}
+
+export interface IUploadTransportRequest {
+    method: HttpMethod;
+    url: string;
+    body?: FormData | Blob | ArrayBuffer | string;
+    headers?: { [key: string]: string };
+    withCredentials?: boolean;
+    /** How the response body should be read. Defaults to `'text'`. */
+    responseType?: 'text' | 'blob';
+}
+
+export interface IUploadTransportResponse {
+    /** The HTTP status code (e.g. `200`). */
+    status: number;
+    statusText: string;
+    /** The unparsed response body. */
+    body: any;
+    /** The response headers, with lower-cased names. */
+    headers: { [key: string]: string };
+}
+
+export interface IUploadTransportProgressEvent {
+    type: UploadTransportEventType.Progress;
+    /** Number of bytes of the request body sent so far. */
+    loaded: number;
+    /** Total number of bytes in the request body. */
+    total: number;
+}
+
+export interface IUploadTransportCompleteEvent {
+    type: UploadTransportEventType.Complete;
+    response: IUploadTransportResponse;
+}
+
+export type UploadTransportEvent = IUploadTransportProgressEvent | IUploadTransportCompleteEvent;
+
+export interface IUploadTransport {
+    /**
+     * Send a request, returning a cold observable that performs the request when subscribed to.
+     * The observable emits any number of progress events followed by exactly one complete event,
+     * then completes. A request that fails before a response is received (e.g. a network error)
+     * errors the observable instead. Unsubscribing aborts the request.
+     */
+    send(request: IUploadTransportRequest): Observable<UploadTransportEvent>;
+}
@@ -1,21 +1,62 @@
+import { IChecksumOptions } from './checksum-options';
+import { ICompressionOptions } from './compression-options';
+import { IDuplicateFilePolicy } from './duplicate-file-policy';
+import { IEncryptionOptions } from './encryption-options';
 import { FileUpload } from './file-upload';
+import { IFilePreprocessor } from './file-preprocessor';
+import { FileValidator } from './file-validator';
+import { IUploadInterceptor } from './upload-interceptor';
 import { IUploadRequestOptions } from './upload-request-options';
+import { IRetryPolicy } from './retry-policy';
+import { UploadResponseParser, UploadResponseType } from './upload-response-type';
+import { IUploadStrategy } from './upload-strategy';
+import { IUploadTransportResponse } from './upload-transport';
+import { IUploadTransport } from './upload-transport';
 
 export type FileUploadCallbackReturn<ReturnType> = Promise<ReturnType> | ReturnType | void;
 
 export interface IUploaderConfig<FileUploadType extends FileUpload = FileUpload> {
     allowedContentTypes?: string[];
+    disallowedContentTypes?: string[];
+    verifyContentType?: boolean;
+    validators?: FileValidator<FileUploadType>[];
+    keepRejectedFiles?: boolean;
+    duplicateFilePolicy?: IDuplicateFilePolicy;
+    preprocessors?: IFilePreprocessor<FileUploadType>[];
+    compressionOptions?: ICompressionOptions;
+    encryptionOptions?: IEncryptionOptions<FileUploadType>;
+    checksumOptions?: IChecksumOptions<FileUploadType>;
     fileCountLimit?: number | (() => number);
     fileSizeLimitMb?: number;
+    fileSizeLimitBytes?: number;
+    minFileSizeBytes?: number;
+    rejectEmptyFiles?: boolean;
+    batchSizeLimitBytes?: number;
+    totalSizeLimitBytes?: number;
+    maxConcurrentUploads?: number;
     dragAndDropFlagSelector?: string;
     uploadFileAsBody?: boolean;
     requestUrl?: string;
     requestOptions?: ((fileUpload?: FileUploadType) => Promise<IUploadRequestOptions>) | IUploadRequestOptions;
     fileUploadType?: any;
+    transport?: IUploadTransport;
+    uploadStrategy?: IUploadStrategy<FileUploadType>;
+    interceptors?: IUploadInterceptor<FileUploadType>[];
+    retryPolicy?: IRetryPolicy;
+    responseType?: UploadResponseType | UploadResponseParser<FileUploadType>;
+    isSuccess?: (response: IUploadTransportResponse, fileUpload: FileUploadType) => boolean;
+    uploadErrorMessage?: (response: IUploadTransportResponse, fileUpload: FileUploadType) => string;
+    onUnauthorized?: (response: IUploadTransportResponse, fileUpload: FileUploadType) => Promise<boolean | void>;
+    requestTimeoutMs?: number;
+    inactivityTimeoutMs?: number;
     allFilesQueuedCallback?: (fileUploads: FileUploadType[]) => FileUploadCallbackReturn<FileUploadType[]>;
     fileUploadedCallback?: (fileUpload: FileUploadType) => FileUploadCallbackReturn<FileUploadType>;
     allFilesUploadedCallback?: (fileUploads: FileUploadType[]) => FileUploadCallbackReturn<FileUploadType[]>;
     onFileCountLimitExceeded?: (fileCountLimit: number) => void;
     disallowedContentTypeErrorMessage?: (file: File) => string;
     disallowedContentSizeErrorMessage?: (file: File) => string;
+    fileTooSmallErrorMessage?: (file: File) => string;
+    emptyFileErrorMessage?: (file: File) => string;
+    batchSizeLimitErrorMessage?: (files: File[]) => string;
+    totalSizeLimitErrorMessage?: (files: File[]) => string;
 }
@@ -1,5 +1,216 @@
-export class UploaderError extends Error { }
-export class FileUploadError extends UploaderError { }
+import { FileUpload } from './file-upload';
+
+export class UploaderError extends Error {
+    constructor(message?: string) {
+        super(message);
+        // Restore the prototype chain (broken when extending `Error` in ES5) so `instanceof` works.
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+export class FileUploadError extends UploaderError {
+    constructor(
+        message?: string,
+        /** The `FileUpload` which failed, if the error happened after it was created. */
+        public fileUpload?: FileUpload
+    ) {
+        super(message);
+    }
+}
 export class DisallowedContentTypeError extends FileUploadError { }
 export class FileSizeLimitExceededError extends FileUploadError { }
+/** The reason a file was rejected when it's smaller than `minFileSizeBytes`. */
+export class FileTooSmallError extends FileUploadError { }
+/** The reason a file was rejected when it's empty and `rejectEmptyFiles` is `true`. */
+export class EmptyFileError extends FileUploadError { }
 export class MissingRequestOptionsError extends FileUploadError { }
+
+/**
+ * Emitted on `errorStream` when a failed attempt is about to be retried according to the
+ * `retryPolicy`. It isn't fatal: the `FileUpload` is not marked as failed.
+ */
+export class UploadRetryError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        /** The attempt which failed, starting from `1`. */
+        public attempt: number,
+        /** Milliseconds until the next attempt. */
+        public delayMs: number,
+        /** The error which caused the attempt to fail. */
+        public cause?: FileUploadError
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/** Emitted on `errorStream` when an upload is cancelled by calling `fileUpload.cancel()`. */
+export class UploadCancelledError extends FileUploadError { }
+
+/** The reason a `FileUpload` failed when the server responded with an error status. */
+export class UploadHttpError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        public status: number,
+        public statusText: string,
+        /** The response body, parsed the same way as `fileUpload.responseBody`. */
+        public body: any,
+        public headers: { [key: string]: string } = {}
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/** The reason a `FileUpload` failed when its request couldn't be completed (e.g. the connection was lost). */
+export class UploadNetworkError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload?: FileUpload,
+        /** The underlying error or event, if any. */
+        public cause?: any
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/** The reason a `FileUpload` failed when its request was aborted by something other than `Uploader`. */
+export class UploadAbortedError extends FileUploadError { }
+
+export enum UploadTimeoutType {
+    /** The whole upload took longer than `requestTimeoutMs`. */
+    Request = 'request',
+    /** The upload made no progress for `inactivityTimeoutMs`. */
+    Inactivity = 'inactivity'
+}
+
+/** The reason a `FileUpload` failed when its upload was aborted because it took too long. */
+export class UploadTimeoutError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        public type: UploadTimeoutType,
+        /** The timeout which elapsed, in milliseconds. */
+        public timeoutMs: number
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/**
+ * The reason a file was rejected by one of `Uploader`'s `validators`. `code` identifies the rule
+ * the file broke (e.g. `'min-dimensions'`), for looking up a message or showing an icon.
+ */
+export class FileValidationError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload?: FileUpload,
+        public code?: string
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/**
+ * Emitted on `errorStream` when the files selected at once are larger, in total, than
+ * `batchSizeLimitBytes`. None of them are added.
+ */
+export class BatchSizeLimitExceededError extends UploaderError {
+    constructor(
+        message: string,
+        /** The files which were selected. */
+        public files: File[],
+        /** Their total size, in bytes. */
+        public bytes: number,
+        public limitBytes: number
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Emitted on `errorStream` when adding the files selected at once would make the files in the
+ * `Uploader` larger, in total, than `totalSizeLimitBytes`. None of them are added.
+ */
+export class TotalSizeLimitExceededError extends UploaderError {
+    constructor(
+        message: string,
+        /** The files which were selected. */
+        public files: File[],
+        /** The total size of the files in the `Uploader`, in bytes, if they had been added. */
+        public bytes: number,
+        public limitBytes: number
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Emitted on `errorStream` when a file is added which is the same as one the `Uploader` already
+ * has, and the `duplicateFilePolicy`'s action is `DuplicateFileAction.Reject`.
+ */
+export class DuplicateFileError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        /** The `FileUpload` of the same file which was added before. */
+        public existingFileUpload: FileUpload
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/**
+ * Emitted on `errorStream` when a `MultipartUploadStrategy` couldn't abort the multipart upload of a
+ * cancelled or removed `FileUpload`, so the parts which were already uploaded may still be stored.
+ */
+export class MultipartUploadAbortError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        /** The error `abort` rejected with. */
+        public cause?: any
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/** The reason a `FileUpload` failed when it couldn't be encrypted. See `IUploaderConfig.encryptionOptions`. */
+export class FileEncryptionError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        /** The error thrown by `getKey` or WebCrypto. */
+        public cause?: any
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/** The reason a `FileUpload` failed when one of the `Uploader`'s `preprocessors` threw or rejected. */
+export class FilePreprocessingError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        /** The error thrown by the preprocessor. */
+        public cause?: any
+    ) {
+        super(message, fileUpload);
+    }
+}
+
+/**
+ * The reason a `FileUpload` failed when the checksum the server echoed in its response didn't
+ * match the one computed before the upload. See `IUploaderConfig.checksumOptions`.
+ */
+export class ChecksumMismatchError extends FileUploadError {
+    constructor(
+        message: string,
+        fileUpload: FileUpload,
+        /** The checksum computed before the upload. */
+        public expectedChecksum: string,
+        /** The checksum in the server's response. */
+        public actualChecksum: string
+    ) {
+        super(message, fileUpload);
+    }
+}
@@ -0,0 +1,20 @@
+import { getExifOrientation, ImageResizePreprocessor } from './image-resize-preprocessor';
+
+describe('ImageResizePreprocessor', () => {
+    it('should read the EXIF orientation of JPEGs', async () => {
+        // SOI, then an APP1 segment with a big-endian TIFF header and a single IFD0 entry.
+        const jpeg = new Uint8Array([
+            0xff, 0xd8, 0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+            0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+            0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+            0x00, 0x00, 0x00, 0x00, 0xff, 0xda
+        ]);
+        expect(await getExifOrientation(new Blob([ jpeg ]))).toBe(6);
+        expect(await getExifOrientation(new Blob([ 'not a JPEG' ]))).toBe(1);
+    });
+
+    it('should leave files which are not images as they are', async () => {
+        const file = new File([ 'test' ], 'test-upload.txt', { type: 'text/plain' });
+        expect(await new ImageResizePreprocessor({ maxWidth: 100 }).process(file)).toBe(file);
+    });
+});
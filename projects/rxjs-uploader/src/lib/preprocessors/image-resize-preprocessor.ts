@@ -0,0 +1,185 @@
+import { loadImage, readAsArrayBuffer } from '../helpers';
+import { FileUpload } from '../models/file-upload';
+import { IFilePreprocessor } from '../models/file-preprocessor';
+
+/** The number of bytes read from the start of a JPEG to find its EXIF orientation. */
+const EXIF_SEARCH_LENGTH = 64 * 1024;
+const EXIF_ORIENTATION_TAG = 0x0112;
+const EXTENSIONS_BY_TYPE: { [type: string]: string } = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp'
+};
+
+export interface IImageResizePreprocessorOptions {
+    /** The maximum width of the image, in pixels. Wider images are scaled down. */
+    maxWidth?: number;
+    /** The maximum height of the image, in pixels. Taller images are scaled down. */
+    maxHeight?: number;
+    /**
+     * The format of the processed image: `'image/jpeg'`, `'image/webp'` or `'image/png'`. Defaults
+     * to the image's own format.
+     */
+    type?: string;
+    /**
+     * The quality of the processed image, from `0` to `1`, if its format is lossy. Defaults to `0.9`.
+     * When it's set, images are recompressed even if they don't need to be resized.
+     */
+    quality?: number;
+    /** The types of images which are processed. Defaults to `['image/jpeg', 'image/png', 'image/webp']`. */
+    contentTypes?: string[];
+}
+
+/**
+ * Scales images down to fit `maxWidth` and `maxHeight`, optionally converting them to another
+ * format or quality, before they're uploaded. JPEGs are rotated according to their EXIF
+ * orientation (and the rest of their EXIF data is dropped). Images which are already small enough,
+ * and images the browser can't decode, are uploaded as they are.
+ */
+export class ImageResizePreprocessor implements IFilePreprocessor {
+    constructor(private _options: IImageResizePreprocessorOptions = {}) { }
+
+    public async process(file: File, _fileUpload?: FileUpload): Promise<File> {
+        const { contentTypes = [ 'image/jpeg', 'image/png', 'image/webp' ] } = this._options;
+        if (contentTypes.indexOf(file.type) === -1) {
+            return file;
+        }
+
+        let image: HTMLImageElement;
+        try {
+            image = await loadImage(file);
+        } catch (error) {
+            return file;
+        }
+
+        const orientation = browserAppliesExifOrientation() ? 1 : await getExifOrientation(file);
+        const isTransposed = orientation >= 5;
+        const width = isTransposed ? image.naturalHeight : image.naturalWidth;
+        const height = isTransposed ? image.naturalWidth : image.naturalHeight;
+        const scale = Math.min(
+            1,
+            this._options.maxWidth ? this._options.maxWidth / width : 1,
+            this._options.maxHeight ? this._options.maxHeight / height : 1
+        );
+        const type = this._options.type || (EXTENSIONS_BY_TYPE[file.type] ? file.type : 'image/jpeg');
+        if (scale === 1 && orientation === 1 && type === file.type && typeof this._options.quality === 'undefined') {
+            return file;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const drawWidth = isTransposed ? canvas.height : canvas.width;
+        const drawHeight = isTransposed ? canvas.width : canvas.height;
+        const context = canvas.getContext('2d');
+        applyOrientation(context, orientation, drawWidth, drawHeight);
+        context.drawImage(image, 0, 0, drawWidth, drawHeight);
+
+        const blob = await toBlob(canvas, type, typeof this._options.quality === 'number' ? this._options.quality : 0.9);
+        return new File([ blob ], renameForType(file.name, file.type, type), {
+            type,
+            lastModified: file.lastModified
+        });
+    }
+}
+
+let appliesExifOrientation: boolean;
+
+/**
+ * Whether the browser already rotates images according to their EXIF orientation when they're
+ * drawn (true of browsers where `image-orientation` defaults to `from-image`).
+ */
+function browserAppliesExifOrientation(): boolean {
+    if (typeof appliesExifOrientation === 'undefined') {
+        const style = getComputedStyle(document.documentElement) as CSSStyleDeclaration & { imageOrientation?: string };
+        appliesExifOrientation = style.imageOrientation === 'from-image';
+    }
+    return appliesExifOrientation;
+}
+
+/** Resolves with the EXIF orientation of a JPEG, from `1` (upright) to `8`, or `1` if it has none. */
+export async function getExifOrientation(file: Blob): Promise<number> {
+    const view = new DataView(await readAsArrayBuffer(file.slice(0, EXIF_SEARCH_LENGTH)));
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+        return 1;
+    }
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const segmentLength = view.getUint16(offset + 2);
+        // APP1, starting with "Exif\0\0".
+        if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+            return readTiffOrientation(view, offset + 10);
+        }
+        // The image data starts at the SOS marker, so there's no EXIF data after it.
+        if (marker < 0xff00 || marker === 0xffda) {
+            break;
+        }
+        offset += 2 + segmentLength;
+    }
+    return 1;
+}
+
+function readTiffOrientation(view: DataView, tiffOffset: number): number {
+    if (tiffOffset + 8 > view.byteLength) {
+        return 1;
+    }
+    const littleEndian = view.getUint16(tiffOffset) === 0x4949;
+    const ifdOffset = tiffOffset + view.getUint32(tiffOffset + 4, littleEndian);
+    if (ifdOffset + 2 > view.byteLength) {
+        return 1;
+    }
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    for (let index = 0; index < entryCount; index++) {
+        const entryOffset = ifdOffset + 2 + index * 12;
+        if (entryOffset + 12 > view.byteLength) {
+            break;
+        }
+        if (view.getUint16(entryOffset, littleEndian) === EXIF_ORIENTATION_TAG) {
+            const orientation = view.getUint16(entryOffset + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+    }
+    return 1;
+}
+
+/** Transform the context so that an image with the EXIF orientation is drawn upright. */
+function applyOrientation(context: CanvasRenderingContext2D, orientation: number, width: number, height: number): void {
+    switch (orientation) {
+        case 2:
+            context.transform(-1, 0, 0, 1, width, 0);
+            break;
+        case 3:
+            context.transform(-1, 0, 0, -1, width, height);
+            break;
+        case 4:
+            context.transform(1, 0, 0, -1, 0, height);
+            break;
+        case 5:
+            context.transform(0, 1, 1, 0, 0, 0);
+            break;
+        case 6:
+            context.transform(0, 1, -1, 0, height, 0);
+            break;
+        case 7:
+            context.transform(0, -1, -1, 0, height, width);
+            break;
+        case 8:
+            context.transform(0, -1, 1, 0, 0, width);
+            break;
+    }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('The image could not be encoded.')), type, quality);
+    });
+}
+
+function renameForType(name: string, originalType: string, type: string): string {
+    if (type === originalType) {
+        return name;
+    }
+    const extensionIndex = name.lastIndexOf('.');
+    return (extensionIndex > 0 ? name.slice(0, extensionIndex) : name) + EXTENSIONS_BY_TYPE[type];
+}
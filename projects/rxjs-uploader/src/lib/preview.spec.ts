@@ -0,0 +1,20 @@
+import { createThumbnail, hasPreviewUrl, readTextPreview } from './preview';
+
+describe('Previews', () => {
+    it('should only have preview URLs for images and videos', () => {
+        expect(hasPreviewUrl(new File([], 'photo.jpg', { type: 'image/jpeg' }))).toBe(true);
+        expect(hasPreviewUrl(new File([], 'clip.mp4', { type: 'video/mp4' }))).toBe(true);
+        expect(hasPreviewUrl(new File([], 'notes.txt', { type: 'text/plain' }))).toBe(false);
+    });
+
+    it('should read the first lines of text files', async () => {
+        const lines = Array.from({ length: 5000 }, (_, index) => `line ${index}`).join('\r\n');
+        expect(await readTextPreview(new File([ lines ], 'server.log'), 3)).toBe('line 0\nline 1\nline 2');
+        expect(await readTextPreview(new File([ 'a,b' ], 'data.csv', { type: 'text/csv' }), 3)).toBe('a,b');
+        expect(await readTextPreview(new File([ 'test' ], 'data.bin'), 3)).toBeNull();
+    });
+
+    it('should not create thumbnails of files which are not images', async () => {
+        expect(await createThumbnail(new File([ 'test' ], 'notes.txt', { type: 'text/plain' }), 100)).toBeNull();
+    });
+});
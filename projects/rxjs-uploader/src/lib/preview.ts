@@ -0,0 +1,53 @@
+import { loadImage, matchesContentTypeRule, readAsText } from './helpers';
+
+/** The number of bytes read from the start of a text file to find its first lines. */
+const TEXT_PREVIEW_LENGTH = 16 * 1024;
+const TEXT_CONTENT_TYPES = [ 'text/*', 'application/json', 'application/xml', '.csv', '.tsv', '.log', '.md', '.txt' ];
+
+/** Whether the browser can show the file itself, from an object URL, in an `<img>` or `<video>`. */
+export function hasPreviewUrl(file: Blob): boolean {
+    return /^(image|video)\//.test(file.type);
+}
+
+/**
+ * Resolves with a data URL of the image, scaled down to fit within `maxSize` pixels square, or
+ * `null` if the file isn't an image the browser can decode.
+ */
+export async function createThumbnail(file: Blob, maxSize: number): Promise<string> {
+    if (!/^image\//.test(file.type)) {
+        return null;
+    }
+    let image: HTMLImageElement;
+    try {
+        image = await loadImage(file);
+    } catch (error) {
+        return null;
+    }
+    // SVGs without a width and height have no natural size.
+    const width = image.naturalWidth || maxSize;
+    const height = image.naturalHeight || maxSize;
+    const scale = Math.min(1, maxSize / width, maxSize / height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+    // Keep the transparency of formats which may have it.
+    return file.type === 'image/jpeg'
+        ? canvas.toDataURL('image/jpeg', 0.8)
+        : canvas.toDataURL('image/png');
+}
+
+/** Resolves with the first lines of a text file, or `null` if the file isn't text. */
+export async function readTextPreview(file: File, maxLines: number): Promise<string> {
+    if (!TEXT_CONTENT_TYPES.some((rule) => matchesContentTypeRule(file, rule))) {
+        return null;
+    }
+    const isTruncated = file.size > TEXT_PREVIEW_LENGTH;
+    const text = await readAsText(file.slice(0, TEXT_PREVIEW_LENGTH));
+    const lines = text.split(/\r?\n/);
+    // The last line read may have been cut short, possibly in the middle of a character.
+    if (isTruncated && lines.length > 1) {
+        lines.pop();
+    }
+    return lines.slice(0, maxLines).join('\n');
+}
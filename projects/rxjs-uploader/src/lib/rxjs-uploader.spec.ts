@@ -1,6 +1,26 @@
 import { Uploader } from './rxjs-uploader';
-import { debounceTime } from 'rxjs/operators';
+import { debounceTime, delay, filter, map, take, tap } from 'rxjs/operators';
+import { ProgressState } from './constants/progress-state';
+import { ChecksumAlgorithm } from './models/checksum-options';
+import { CompressionFormat } from './models/compression-options';
+import { DuplicateFileAction, DuplicateFileDetection } from './models/duplicate-file-policy';
 import { FileUpload } from './models/file-upload';
+import { HttpMethod } from './models/http-method';
+import {
+    BatchSizeLimitExceededError,
+    ChecksumMismatchError,
+    DisallowedContentTypeError,
+    DuplicateFileError,
+    EmptyFileError,
+    FilePreprocessingError,
+    FileValidationError,
+    UploadCancelledError,
+    UploadHttpError,
+    UploadTimeoutError
+} from './models/uploader-error';
+import { UploadTransportEventType } from './models/upload-transport';
+import { TusUploadStrategy } from './strategies/tus-upload-strategy';
+import { InMemoryUploadTransport } from './transports/in-memory-upload-transport';
 
 const mockUploadUrl = 'https://www.mocky.io/v2/5185415ba171ea3a00704eed';
 
@@ -163,4 +183,1076 @@ describe('RxJs Uploader', () => {
         multiFileInput1.dispatchEvent(new Event('change'));
         multiFileInput2.dispatchEvent(new Event('change'));
     });
+
+    it('should send uploads through a custom transport', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ status: 201, body: '{"id":1}' })
+        });
+
+        new Uploader({ transport })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].uploaded),
+                take(1)
+            )
+            .subscribe((fileUploads) => {
+                expect(transport.requests.length).toBe(1);
+                expect(transport.requests[0].url).toBe(mockUploadUrl);
+                expect(fileUploads[0].responseCode).toBe(201);
+                expect(fileUploads[0].responseBody).toEqual({ id: 1 });
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should queue uploads beyond the concurrency limit', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload-1.txt'));
+        dataTransfer.items.add(new File(['test'], 'test-upload-2.txt'));
+        dataTransfer.items.add(new File(['test'], 'test-upload-3.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({ latencyMs: 10 });
+        let maxUploadingCount = 0;
+
+        new Uploader({ transport, maxConcurrentUploads: 2 })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                tap((fileUploads) => {
+                    const uploadingCount = fileUploads.filter((fileUpload) => fileUpload.uploading).length;
+                    maxUploadingCount = Math.max(maxUploadingCount, uploadingCount);
+                }),
+                filter((fileUploads) => fileUploads.length === 3 && fileUploads.every((fileUpload) => fileUpload.uploaded)),
+                take(1)
+            )
+            .subscribe(() => {
+                expect(maxUploadingCount).toBe(2);
+                expect(transport.requests.length).toBe(3);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should retry failed uploads according to the retry policy', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        let responseCount = 0;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ status: ++responseCount < 3 ? 503 : 200 })
+        });
+
+        new Uploader({ transport, retryPolicy: { initialDelayMs: 1, jitter: 0 } })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].uploaded),
+                take(1)
+            )
+            .subscribe((fileUploads) => {
+                expect(transport.requests.length).toBe(3);
+                expect(fileUploads[0].attemptCount).toBe(3);
+                expect(fileUploads[0].responseCode).toBe(200);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should fail uploads whose Retry-After is longer than the maximum delay', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ status: 429, headers: { 'retry-after': '120' } })
+        });
+
+        new Uploader({ transport, retryPolicy: {} })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].failed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(transport.requests.length).toBe(1);
+                expect(fileUpload.error instanceof UploadHttpError).toBe(true);
+                expect(fileUpload.progress.state).toBe(ProgressState.Failed);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should fail uploads which stop making progress', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({ latencyMs: 50 });
+        const uploader = new Uploader({ transport, inactivityTimeoutMs: 10 });
+        const errorSpy = jasmine.createSpy('error');
+        uploader.errorStream.subscribe(errorSpy);
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].failed),
+                take(1)
+            )
+            .subscribe(() => {
+                expect(errorSpy).toHaveBeenCalledWith(jasmine.any(UploadTimeoutError));
+                expect(transport.abortedRequests.length).toBe(1);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should stream the total progress weighted by file size', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload-1.txt'));
+        dataTransfer.items.add(new File(['test test test'], 'test-upload-2.txt'));
+        fileInput.files = dataTransfer.files;
+        const uploader = new Uploader({ transport: new InMemoryUploadTransport(), uploadFileAsBody: true });
+        const percents: number[] = [];
+
+        uploader.totalProgressStream
+            .pipe(
+                tap((totalProgress) => percents.push(totalProgress.percent)),
+                filter((totalProgress) => totalProgress.stateCounts[ProgressState.Completed] === 2),
+                take(1)
+            )
+            .subscribe((totalProgress) => {
+                expect(totalProgress.bytesTotal).toBe(18);
+                expect(totalProgress.bytesLoaded).toBe(18);
+                expect(totalProgress.percent).toBe(100);
+                expect(percents).toEqual(percents.slice().sort((a, b) => a - b));
+                done();
+            });
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .subscribe();
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should send compressed files with a Content-Encoding and report progress in original bytes', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        const csv = Array.from({ length: 1000 }, (_, index) => `${index},item-${index % 7}`).join('\n');
+        dataTransfer.items.add(new File([ csv ], 'test-upload.csv', { type: 'text/csv' }));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport();
+        const uploader = new Uploader({
+            transport,
+            uploadFileAsBody: true,
+            compressionOptions: { format: CompressionFormat.Gzip }
+        });
+        const bytesTotals: number[] = [];
+
+        uploader.totalProgressStream
+            .pipe(
+                filter((totalProgress) => totalProgress.bytesTotal > 0),
+                tap((totalProgress) => bytesTotals.push(totalProgress.bytesTotal)),
+                filter((totalProgress) => totalProgress.stateCounts[ProgressState.Completed] === 1),
+                take(1)
+            )
+            .subscribe((totalProgress) => {
+                const request = transport.requests[0];
+                expect(request.headers['Content-Encoding']).toBe('gzip');
+                expect((request.body as Blob).size).toBeLessThan(csv.length);
+                expect(totalProgress.bytesLoaded).toBe(csv.length);
+                expect(bytesTotals.every((bytesTotal) => bytesTotal === csv.length)).toBe(true);
+                done();
+            });
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .subscribe();
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should revoke the preview URL of a removed upload', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'photo.png', { type: 'image/png' }));
+        fileInput.files = dataTransfer.files;
+        spyOn(URL, 'createObjectURL').and.returnValue('blob:preview');
+        const revokeObjectUrlSpy = spyOn(URL, 'revokeObjectURL');
+        const uploader = new Uploader({ transport: new InMemoryUploadTransport() });
+        let hasRemoved = false;
+
+        // The stream stays subscribed to, so that the removal is processed.
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                delay(0),
+                filter((fileUploads) => fileUploads.length === 1 && !hasRemoved)
+            )
+            .subscribe(([ fileUpload ]) => {
+                hasRemoved = true;
+                expect(fileUpload.previewUrl).toBe('blob:preview');
+                fileUpload.remove();
+                expect(revokeObjectUrlSpy).toHaveBeenCalledWith('blob:preview');
+                expect(fileUpload.previewUrl).toBeNull();
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should revoke the preview URLs of every upload when it is cleared', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'photo.png', { type: 'image/png' }));
+        fileInput.files = dataTransfer.files;
+        spyOn(URL, 'createObjectURL').and.returnValue('blob:preview');
+        const revokeObjectUrlSpy = spyOn(URL, 'revokeObjectURL');
+        const uploader = new Uploader({ transport: new InMemoryUploadTransport() });
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.previewUrl).toBe('blob:preview');
+                uploader.clear();
+                expect(revokeObjectUrlSpy).toHaveBeenCalledWith('blob:preview');
+                expect(fileUpload.previewUrl).toBeNull();
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should pause and resume an upload', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({ latencyMs: 10 });
+        const states: ProgressState[] = [];
+
+        new Uploader({ transport })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1),
+                tap(([ fileUpload ]) => {
+                    if (states[states.length - 1] !== fileUpload.progress.state) {
+                        states.push(fileUpload.progress.state);
+                    }
+                    if (fileUpload.uploading && !fileUpload.paused && transport.abortedRequests.length === 0) {
+                        fileUpload.pause();
+                        setTimeout(() => fileUpload.resume(), 20);
+                    }
+                }),
+                filter(([ fileUpload ]) => fileUpload.uploaded),
+                take(1)
+            )
+            .subscribe(() => {
+                expect(states).toContain(ProgressState.Idle);
+                expect(transport.requests.length).toBe(2);
+                expect(transport.abortedRequests.length).toBe(1);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should not send uploads cancelled while their request options were being created', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport();
+        const requestOptions = async () => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            return { url: mockUploadUrl };
+        };
+        const uploader = new Uploader({ transport, requestOptions });
+        const errorSpy = jasmine.createSpy('error');
+        uploader.errorStream.subscribe(errorSpy);
+
+        uploader
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1),
+                tap(([ fileUpload ]) => {
+                    if (fileUpload.queued) {
+                        fileUpload.cancel();
+                    }
+                }),
+                filter(([ fileUpload ]) => fileUpload.cancelled),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(errorSpy).toHaveBeenCalledWith(jasmine.any(UploadCancelledError));
+                setTimeout(() => {
+                    expect(fileUpload.cancelled).toBe(true);
+                    expect(transport.requests.length).toBe(0);
+                    done();
+                }, 30);
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should keep cancelled uploads in the stream', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({ latencyMs: 10 });
+        const fileUploadedCbSpy = jasmine.createSpy('fileUploadedCallback');
+        const uploader = new Uploader({ transport, fileUploadedCallback: fileUploadedCbSpy });
+        const errorSpy = jasmine.createSpy('error');
+        uploader.errorStream.subscribe(errorSpy);
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1),
+                tap(([ fileUpload ]) => {
+                    if (fileUpload.uploading) {
+                        fileUpload.cancel();
+                    }
+                }),
+                filter(([ fileUpload ]) => fileUpload.cancelled),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.progress.state).toBe(ProgressState.Cancelled);
+                expect(fileUpload.failed).toBe(false);
+                expect(transport.abortedRequests.length).toBe(1);
+                expect(errorSpy).toHaveBeenCalledWith(jasmine.any(UploadCancelledError));
+                expect(fileUploadedCbSpy).not.toHaveBeenCalled();
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should fail uploads which get an error response', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ status: 422, body: '{"message":"Invalid file"}' })
+        });
+        const uploader = new Uploader({ transport });
+        const errorSpy = jasmine.createSpy('error');
+        uploader.errorStream.subscribe(errorSpy);
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].failed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                const error = errorSpy.calls.mostRecent().args[0] as UploadHttpError;
+                expect(fileUpload.progress.state).toBe(ProgressState.Failed);
+                expect(fileUpload.error).toBe(error);
+                expect(error instanceof UploadHttpError).toBe(true);
+                expect(error.fileUpload).toBe(fileUpload);
+                expect(error.status).toBe(422);
+                expect(error.body).toEqual({ message: 'Invalid file' });
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should parse responses with a custom response parser', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ body: 'id=1', headers: { location: '/files/1' } })
+        });
+
+        new Uploader<FileUpload<{ id: number }>>({
+            transport,
+            responseType: (response) => ({ id: parseInt(response.body.split('=')[1], 10) })
+        })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].uploaded),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.responseBody.id).toBe(1);
+                expect(fileUpload.responseHeaders.location).toBe('/files/1');
+                expect(fileUpload.response.headers.get('location')).toBe('/files/1');
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should use the isSuccess option to decide whether uploads succeeded', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ status: 200, body: '{"ok":false,"error":"Quota exceeded"}' })
+        });
+
+        new Uploader({
+            transport,
+            isSuccess: (_response, fileUpload) => fileUpload.responseBody.ok,
+            uploadErrorMessage: (_response, fileUpload) => fileUpload.responseBody.error
+        })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].failed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.succeeded).toBe(false);
+                expect(fileUpload.responseCode).toBe(200);
+                expect(fileUpload.errorMessage).toBe('Quota exceeded');
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should reject files of a type with a signature whose content is in no known format', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File([ 'MZ is how these notes start' ], 'notes.txt', { type: 'text/plain' }));
+        dataTransfer.items.add(new File([ 'not really a PNG' ], 'image.png', { type: 'image/png' }));
+        fileInput.files = dataTransfer.files;
+        const uploader = new Uploader({
+            transport: new InMemoryUploadTransport(),
+            verifyContentType: true
+        });
+        const errors = [];
+        uploader.errorStream.subscribe((error) => errors.push(error));
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length > 0),
+                take(1)
+            )
+            .subscribe((fileUploads) => {
+                expect(fileUploads.map((fileUpload) => fileUpload.name)).toEqual([ 'notes.txt' ]);
+                expect(errors.length).toBe(1);
+                expect(errors[0] instanceof DisallowedContentTypeError).toBe(true);
+                expect(errors[0].message).toContain('image/png');
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should accept text files whose first bytes look like audio or video headers', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        const utf16Bytes = new Uint8Array([ 0xff, 0xfe, 0x61, 0x00, 0x2c, 0x00, 0x62, 0x00 ]);
+        dataTransfer.items.add(new File([ utf16Bytes ], 'data.csv', { type: 'text/csv' }));
+        dataTransfer.items.add(new File([ 'The wide river' ], 'notes.txt', { type: 'text/plain' }));
+        fileInput.files = dataTransfer.files;
+        const uploader = new Uploader({
+            transport: new InMemoryUploadTransport(),
+            verifyContentType: true
+        });
+        const errors = [];
+        uploader.errorStream.subscribe((error) => errors.push(error));
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length > 0),
+                take(1)
+            )
+            .subscribe((fileUploads) => {
+                expect(fileUploads.map((fileUpload) => fileUpload.name)).toEqual([ 'data.csv', 'notes.txt' ]);
+                expect(errors.length).toBe(0);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should clear the error of a failed upload when it is retried', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({ respond: () => ({ status: 500 }) });
+
+        new Uploader({ transport })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].failed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.error instanceof UploadHttpError).toBe(true);
+                fileUpload.retry();
+                expect(fileUpload.failed).toBe(false);
+                expect(fileUpload.error).toBeNull();
+                expect(fileUpload.errorMessage).toBeNull();
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should reject files whose content does not match their type', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        const pngBytes = new Uint8Array([ 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a ]);
+        const exeBytes = new Uint8Array(0x84);
+        exeBytes.set([ 0x4d, 0x5a ]);
+        exeBytes[0x3c] = 0x80;
+        exeBytes.set([ 0x50, 0x45, 0x00, 0x00 ], 0x80);
+        dataTransfer.items.add(new File([ pngBytes ], 'image.png', { type: 'image/png' }));
+        dataTransfer.items.add(new File([ exeBytes ], 'renamed.png', { type: 'image/png' }));
+        fileInput.files = dataTransfer.files;
+        const uploader = new Uploader({
+            transport: new InMemoryUploadTransport(),
+            allowedContentTypes: [ 'image/*' ],
+            verifyContentType: true
+        });
+        const errors = [];
+        uploader.errorStream.subscribe((error) => errors.push(error));
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length > 0),
+                take(1)
+            )
+            .subscribe((fileUploads) => {
+                expect(fileUploads.map((fileUpload) => fileUpload.name)).toEqual([ 'image.png' ]);
+                expect(errors.length).toBe(1);
+                expect(errors[0] instanceof DisallowedContentTypeError).toBe(true);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should keep files rejected by the validators without uploading them', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'valid.txt'));
+        dataTransfer.items.add(new File(['test'], 'invalid.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport();
+
+        new Uploader({
+            transport,
+            keepRejectedFiles: true,
+            validators: [
+                async (file) => file.name === 'invalid.txt'
+                    ? new FileValidationError(`${file.name} is invalid.`, undefined, 'invalid-name')
+                    : null
+            ]
+        })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 2 && fileUploads[0].succeeded),
+                take(1)
+            )
+            .subscribe((fileUploads) => {
+                const invalid = fileUploads[1];
+                expect(invalid.progress.state).toBe(ProgressState.Rejected);
+                expect(invalid.rejected).toBe(true);
+                expect((invalid.validationErrors[0] as FileValidationError).code).toBe('invalid-name');
+                expect(invalid.errorMessage).toBe('invalid.txt is invalid.');
+                expect(transport.requests.length).toBe(1);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should reject empty files and selections over the batch size limit', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File([], 'empty.txt'));
+        dataTransfer.items.add(new File(['test'], 'test-upload-1.txt'));
+        dataTransfer.items.add(new File(['test'], 'test-upload-2.txt'));
+        fileInput.files = dataTransfer.files;
+        const uploader = new Uploader({
+            transport: new InMemoryUploadTransport(),
+            rejectEmptyFiles: true,
+            batchSizeLimitBytes: 6
+        });
+        const errors = [];
+        uploader.errorStream.subscribe((error) => errors.push(error));
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(debounceTime(50))
+            .subscribe((fileUploads) => {
+                expect(fileUploads.length).toBe(0);
+                expect(errors[0] instanceof EmptyFileError).toBe(true);
+                expect(errors[1] instanceof BatchSizeLimitExceededError).toBe(true);
+                expect((errors[1] as BatchSizeLimitExceededError).bytes).toBe(8);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should reject files which have already been added', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const selectFile = () => {
+            const dataTransfer = new DataTransfer();
+            dataTransfer.items.add(new File(['test'], 'test-upload.txt', { lastModified: 1 }));
+            fileInput.files = dataTransfer.files;
+            fileInput.dispatchEvent(new Event('change'));
+        };
+        const uploader = new Uploader({
+            transport: new InMemoryUploadTransport(),
+            duplicateFilePolicy: { action: DuplicateFileAction.Reject }
+        });
+
+        uploader.errorStream.subscribe((error) => {
+            expect(error instanceof DuplicateFileError).toBe(true);
+            expect((error as DuplicateFileError).existingFileUpload.name).toBe('test-upload.txt');
+            done();
+        });
+        // The stream stays subscribed to, so that the file selected again is processed.
+        let hasSelectedAgain = false;
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(filter((fileUploads) => fileUploads.length === 1 && !hasSelectedAgain))
+            .subscribe(() => {
+                hasSelectedAgain = true;
+                selectFile();
+            });
+
+        selectFile();
+    });
+
+    it('should detect duplicates by the hash of their content', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const selectFile = (name: string) => {
+            const dataTransfer = new DataTransfer();
+            dataTransfer.items.add(new File(['test'], name));
+            fileInput.files = dataTransfer.files;
+            fileInput.dispatchEvent(new Event('change'));
+        };
+        const uploader = new Uploader({
+            transport: new InMemoryUploadTransport(),
+            duplicateFilePolicy: { detectBy: DuplicateFileDetection.ContentHash, action: DuplicateFileAction.Reject }
+        });
+
+        uploader.errorStream.subscribe((error) => {
+            expect(error instanceof DuplicateFileError).toBe(true);
+            expect((error as DuplicateFileError).fileUpload.name).toBe('copy.txt');
+            expect((error as DuplicateFileError).existingFileUpload.name).toBe('original.txt');
+            done();
+        });
+        let hasSelectedCopy = false;
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(filter((fileUploads) => fileUploads.length === 1 && !hasSelectedCopy))
+            .subscribe(() => {
+                hasSelectedCopy = true;
+                selectFile('copy.txt');
+            });
+
+        selectFile('original.txt');
+    });
+
+    it('should upload the file returned by the preprocessors', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport();
+
+        new Uploader({
+            transport,
+            uploadFileAsBody: true,
+            preprocessors: [
+                { process: async (file) => new File([ 'processed' ], file.name) }
+            ]
+        })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].succeeded),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.file.size).toBe('processed'.length);
+                expect(fileUpload.originalFile.size).toBe('test'.length);
+                expect(transport.requests[0].body).toBe(fileUpload.file);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should run the preprocessors again when an upload whose preprocessing failed is retried', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport();
+        const process = jasmine.createSpy('process').and.callFake(async (file: File) => {
+            if (process.calls.count() === 1) {
+                throw new Error('Out of memory');
+            }
+            return new File([ 'processed' ], file.name);
+        });
+
+        new Uploader({ transport, uploadFileAsBody: true, preprocessors: [ { process } ] })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1),
+                tap(([ fileUpload ]) => {
+                    if (fileUpload.failed) {
+                        expect(fileUpload.error instanceof FilePreprocessingError).toBe(true);
+                        fileUpload.retry();
+                    }
+                }),
+                filter(([ fileUpload ]) => fileUpload.succeeded),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(process).toHaveBeenCalledTimes(2);
+                expect(process.calls.mostRecent().args[0]).toBe(fileUpload.originalFile);
+                expect(transport.requests.length).toBe(1);
+                expect(transport.requests[0].body).toBe(fileUpload.file);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should not prepare more files at once than maxConcurrentUploads', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        [ 'a.txt', 'b.txt', 'c.txt' ].forEach((name) => dataTransfer.items.add(new File(['test'], name)));
+        fileInput.files = dataTransfer.files;
+        let preparingCount = 0;
+        let maxPreparingCount = 0;
+        const process = async (file: File) => {
+            maxPreparingCount = Math.max(maxPreparingCount, ++preparingCount);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            preparingCount--;
+            return file;
+        };
+
+        new Uploader({
+            transport: new InMemoryUploadTransport(),
+            maxConcurrentUploads: 1,
+            preprocessors: [ { process } ]
+        })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 3 && fileUploads.every((fileUpload) => fileUpload.succeeded)),
+                take(1)
+            )
+            .subscribe(() => {
+                expect(maxPreparingCount).toBe(1);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should send a checksum and fail uploads whose echoed checksum does not match', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ status: 200, headers: { etag: '"0123456789abcdef0123456789abcdef"' }, body: '' })
+        });
+        const uploader = new Uploader({
+            transport,
+            uploadFileAsBody: true,
+            checksumOptions: { algorithm: ChecksumAlgorithm.Md5, header: 'Content-MD5', responseChecksum: 'ETag' }
+        });
+        const errorSpy = jasmine.createSpy('error');
+        uploader.errorStream.subscribe(errorSpy);
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].failed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                const error = errorSpy.calls.mostRecent().args[0] as ChecksumMismatchError;
+                expect(fileUpload.checksum).toBe('098f6bcd4621d373cade4e832627b4f6');
+                expect(transport.requests[0].headers['Content-MD5']).toBe(fileUpload.checksum);
+                expect(error instanceof ChecksumMismatchError).toBe(true);
+                expect(error.actualChecksum).toBe('0123456789abcdef0123456789abcdef');
+                expect(fileUpload.error).toBe(error);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should not send the checksum header with the requests of a tus upload', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['0123456789'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        let storedBytes = 0;
+        const transport = new InMemoryUploadTransport({
+            respond: (request) => {
+                if (request.method === HttpMethod.Post) {
+                    return { status: 201, headers: { location: '/files/1' } };
+                }
+                storedBytes = parseInt(request.headers['Upload-Offset'], 10) + (request.body as Blob).size;
+                return { status: 204, headers: { 'upload-offset': `${storedBytes}` } };
+            }
+        });
+        const uploader = new Uploader({
+            transport,
+            uploadStrategy: new TusUploadStrategy({ chunkSize: 4 }),
+            checksumOptions: { algorithm: ChecksumAlgorithm.Md5, header: 'Content-MD5' }
+        });
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].progress.state === ProgressState.Completed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.checksum).toBe('781e5e245d69b566979b86e28d23f2c7');
+                expect(transport.requests.length).toBe(4);
+                expect(transport.requests.every((request) => !('Content-MD5' in request.headers))).toBe(true);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should neither compress nor send a Content-Encoding with the requests of a tus upload', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        const csv = Array.from({ length: 100 }, (_, index) => `${index},item-${index % 7}`).join('\n');
+        dataTransfer.items.add(new File([ csv ], 'test-upload.csv', { type: 'text/csv' }));
+        fileInput.files = dataTransfer.files;
+        let storedBytes = 0;
+        const transport = new InMemoryUploadTransport({
+            respond: (request) => {
+                if (request.method === HttpMethod.Post) {
+                    return { status: 201, headers: { location: '/files/1' } };
+                }
+                storedBytes = parseInt(request.headers['Upload-Offset'], 10) + (request.body as Blob).size;
+                return { status: 204, headers: { 'upload-offset': `${storedBytes}` } };
+            }
+        });
+        const uploader = new Uploader({
+            transport,
+            uploadFileAsBody: true,
+            uploadStrategy: new TusUploadStrategy(),
+            compressionOptions: { format: CompressionFormat.Gzip }
+        });
+
+        uploader
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].progress.state === ProgressState.Completed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.compression).toBeNull();
+                expect(transport.requests[0].headers['Upload-Length']).toBe(`${csv.length}`);
+                expect(transport.requests.every((request) => !('Content-Encoding' in request.headers))).toBe(true);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should pass requests and responses through the interceptors', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: () => ({ status: 200, body: '{"id":1}' })
+        });
+
+        new Uploader({
+            transport,
+            interceptors: [
+                {
+                    intercept: (request, _fileUpload, next) => next.handle({
+                        ...request,
+                        headers: { ...request.headers, Authorization: 'Bearer token' }
+                    })
+                },
+                {
+                    intercept: (request, _fileUpload, next) => next.handle(request).pipe(
+                        map((event) => event.type === UploadTransportEventType.Complete
+                            ? { ...event, response: { ...event.response, body: '{"id":2}' } }
+                            : event)
+                    )
+                }
+            ]
+        })
+            .setRequestUrl(mockUploadUrl)
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].succeeded),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(transport.requests[0].headers).toEqual({ Authorization: 'Bearer token' });
+                expect(fileUpload.responseBody).toEqual({ id: 2 });
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should refresh the credentials once and replay uploads which got a 401', (done) => {
+        const fileInput = Uploader.createFileInputElement('multiple');
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload-1.txt'));
+        dataTransfer.items.add(new File(['test'], 'test-upload-2.txt'));
+        fileInput.files = dataTransfer.files;
+        let token = 'expired';
+        const transport = new InMemoryUploadTransport({
+            respond: (request) => request.headers.Authorization === 'Bearer fresh'
+                ? { status: 200, body: '{}' }
+                : { status: 401, body: '{}' }
+        });
+        const onUnauthorizedSpy = jasmine.createSpy('onUnauthorized').and.callFake(async () => {
+            token = 'fresh';
+        });
+
+        new Uploader({
+            transport,
+            requestOptions: async () => ({ url: mockUploadUrl, headers: { Authorization: `Bearer ${token}` } }),
+            onUnauthorized: onUnauthorizedSpy
+        })
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 2 && fileUploads.every((fileUpload) => fileUpload.succeeded)),
+                take(1)
+            )
+            .subscribe((fileUploads) => {
+                expect(onUnauthorizedSpy).toHaveBeenCalledTimes(1);
+                expect(transport.requests.length).toBe(4);
+                expect(fileUploads.map((fileUpload) => fileUpload.attemptCount)).toEqual([ 1, 1 ]);
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should replay uploads which got a 401 with the request options set by onUnauthorized', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({
+            respond: (request) => request.headers.Authorization === 'Bearer fresh'
+                ? { status: 200, body: '{}' }
+                : { status: 401, body: '{}' }
+        });
+        const uploader = new Uploader({
+            transport,
+            requestOptions: { url: mockUploadUrl, headers: { Authorization: 'Bearer expired' } },
+            onUnauthorized: async () => {
+                uploader.setRequestOptions({ url: mockUploadUrl, headers: { Authorization: 'Bearer fresh' } });
+            }
+        });
+
+        uploader
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].uploaded),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(fileUpload.succeeded).toBe(true);
+                expect(transport.requests.length).toBe(2);
+                expect(transport.requests[1].headers.Authorization).toBe('Bearer fresh');
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
+
+    it('should fail uploads whose request options factory rejects before a replay', (done) => {
+        const fileInput = Uploader.createFileInputElement();
+        const dataTransfer = new DataTransfer();
+        dataTransfer.items.add(new File(['test'], 'test-upload.txt'));
+        fileInput.files = dataTransfer.files;
+        const transport = new InMemoryUploadTransport({ respond: () => ({ status: 401, body: '{}' }) });
+        let factoryCallCount = 0;
+        const requestOptions = async () => {
+            if (++factoryCallCount > 1) {
+                throw new Error('Session expired');
+            }
+            return { url: mockUploadUrl };
+        };
+
+        new Uploader({ transport, requestOptions, onUnauthorized: async () => true })
+            .streamFileUploads(fileInput)
+            .pipe(
+                filter((fileUploads) => fileUploads.length === 1 && fileUploads[0].failed),
+                take(1)
+            )
+            .subscribe(([ fileUpload ]) => {
+                expect(transport.requests.length).toBe(1);
+                expect(fileUpload.error.message).toContain('Session expired');
+                done();
+            });
+
+        fileInput.dispatchEvent(new Event('change'));
+    });
 });
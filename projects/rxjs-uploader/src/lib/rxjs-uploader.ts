@@ -2,6 +2,8 @@ import { uniq } from 'lodash';
 import {
     BehaviorSubject,
     combineLatest,
+    defer,
+    EMPTY,
     from as observableFrom,
     fromEvent,
     merge,
@@ -10,30 +12,100 @@ import {
     of as observableOf,
     Subject,
     Subscription,
-    OperatorFunction
+    OperatorFunction,
+    throwError,
+    timer
 } from 'rxjs';
-import { delay, filter, flatMap, map, scan, switchMap, take, takeUntil } from 'rxjs/operators';
+import {
+    delay,
+    distinctUntilChanged,
+    filter,
+    finalize,
+    flatMap,
+    map,
+    scan,
+    skip,
+    switchMap,
+    take,
+    takeUntil,
+    tap,
+    timeoutWith
+} from 'rxjs/operators';
 import { ProgressState } from './constants/progress-state';
 import { FileUpload } from './models/file-upload';
+import { IProgress } from './models/progress';
+import { ITotalProgress } from './models/total-progress';
 import { IUploadRequestOptions } from './models/upload-request-options';
 import { UploaderError, FileSizeLimitExceededError } from './models/uploader-error';
-import { DisallowedContentTypeError, MissingRequestOptionsError } from './models/uploader-error';
+import {
+    BatchSizeLimitExceededError,
+    ChecksumMismatchError,
+    DisallowedContentTypeError,
+    DuplicateFileError,
+    EmptyFileError,
+    FileEncryptionError,
+    FilePreprocessingError,
+    FileUploadError,
+    FileTooSmallError,
+    FileValidationError,
+    MissingRequestOptionsError,
+    TotalSizeLimitExceededError,
+    UploadCancelledError,
+    UploadHttpError,
+    UploadNetworkError,
+    UploadRetryError,
+    UploadTimeoutError,
+    UploadTimeoutType
+} from './models/uploader-error';
 import { IUploaderConfig, FileUploadCallbackReturn } from './models/uploader-config';
-import { setAcceptAttribute } from './helpers';
-
-/** @see https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest/readyState */
-export const enum XHRReadyState {
-    UNSENT = 0,
-    OPENED = 1,
-    HEADERS_RECEIVED = 2,
-    LOADING = 3,
-    DONE = 4
-}
+import { ChecksumAlgorithm, ChecksumEncoding, IChecksumOptions } from './models/checksum-options';
+import { CompressionFormat, defaultCompressionContentTypes, ICompressionOptions } from './models/compression-options';
+import { IEncryptionOptions } from './models/encryption-options';
+import { DuplicateFileAction, DuplicateFileDetection, IDuplicateFilePolicy } from './models/duplicate-file-policy';
+import { IFilePreprocessor } from './models/file-preprocessor';
+import { FileValidator, FileValidatorResult } from './models/file-validator';
+import { defaultRetryPolicy, IRetryPolicy } from './models/retry-policy';
+import { UploadResponseParser, UploadResponseType } from './models/upload-response-type';
+import { IUploadInterceptor } from './models/upload-interceptor';
+import { IUploadStrategy } from './models/upload-strategy';
+import {
+    IUploadTransport,
+    IUploadTransportResponse,
+    UploadTransportEvent,
+    UploadTransportEventType
+} from './models/upload-transport';
+import { XhrUploadTransport } from './transports/xhr-upload-transport';
+import { TransferRateMeter } from './transfer-rate-meter';
+import { UploadQueue } from './upload-queue';
+import {
+    formatBytes,
+    getAcceptAttribute,
+    getRetryDelayMs,
+    getTotalProgress,
+    interceptTransport,
+    isContentTypeAllowed,
+    isRetryable,
+    matchesContentTypeRule,
+    isSuccessResponse,
+    setAcceptAttribute
+} from './helpers';
+import {
+    getDeclaredContentTypeSignature,
+    IContentTypeSignature,
+    matchesContentTypeSignature,
+    sniffContentType
+} from './content-type-sniffer';
+import { computeChecksum } from './checksum';
+import { compressBlob } from './compression';
+import { encryptBlob } from './encryption';
+
 export type FileUploadSubjectsMap = Map<Symbol, BehaviorSubject<FileUpload>>;
 export type DropZoneTarget = HTMLElement | Document | Window;
 export type FileSource = HTMLInputElement | DropZoneTarget;
 
 const BYTES_PER_MB = 1000 * 1000;
+/** Statuses for which the `Response` constructor doesn't accept a body. */
+const nullBodyStatuses = [101, 204, 205, 304];
 
 export class Uploader<FileUploadType extends FileUpload = FileUpload> {
     private _isDraggedOverSubject = new BehaviorSubject<boolean>(false);
@@ -43,15 +115,46 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
     private _fileUploadSubjectsMap = new Map<Symbol, BehaviorSubject<FileUploadType>>();
     private _fileUploadsStreamResetSubject = new Subject<null>();
     private _errorSubject = new Subject<UploaderError>();
+    private _fileUploadsSubject = new BehaviorSubject<FileUploadType[]>([]);
     private _areRequestOptionsSet = false;
     private _uploadFileAsBody = false;
     private _allowedContentTypes: string[] = ['*'];
+    private _disallowedContentTypes: string[] = [];
+    private _verifyContentType = false;
+    private _validators: FileValidator<FileUploadType>[] = [];
+    private _keepRejectedFiles = false;
+    private _duplicateFilePolicy: IDuplicateFilePolicy = null;
+    private _duplicateKeys = new Map<Symbol, string>();
+    private _preprocessors: IFilePreprocessor<FileUploadType>[] = [];
+    private _compressionOptions: ICompressionOptions = null;
+    private _encryptionOptions: IEncryptionOptions<FileUploadType> = null;
+    private _checksumOptions: IChecksumOptions<FileUploadType> = null;
     private _fileCountLimit: number | (() => number) = 0; // Anything falsy or < 1 means infinity.
     private _fileSizeLimitMb: number;
+    private _fileSizeLimitBytes: number;
+    private _minFileSizeBytes: number;
+    private _rejectEmptyFiles = false;
+    private _batchSizeLimitBytes: number;
+    private _totalSizeLimitBytes: number;
+    private _maxConcurrentUploads = 0; // Anything falsy or < 1 means infinity.
+    private _uploadQueue = new UploadQueue(() => this._maxConcurrentUploads);
     private _onFileCountLimitExceeded: (fileCountLimit: number) => void;
     private _requestOptions: Partial<IUploadRequestOptions>;
     private _requestOptionsFactory: (fileUpload?: FileUploadType) => Promise<IUploadRequestOptions> | IUploadRequestOptions;
     private _fileUploadType = FileUpload;
+    private _transport: IUploadTransport = new XhrUploadTransport();
+    private _uploadStrategy: IUploadStrategy<FileUploadType>;
+    private _uploadStrategyErrorSubscription: Subscription;
+    private _interceptors: IUploadInterceptor<FileUploadType>[] = [];
+    private _retryPolicy: IRetryPolicy;
+    private _responseType: UploadResponseType | UploadResponseParser<FileUploadType> = UploadResponseType.Json;
+    private _isSuccess: (response: IUploadTransportResponse, fileUpload: FileUploadType) => boolean = isSuccessResponse;
+    private _uploadErrorMessage: (response: IUploadTransportResponse, fileUpload: FileUploadType) => string;
+    private _onUnauthorized: (response: IUploadTransportResponse, fileUpload: FileUploadType) => Promise<boolean | void>;
+    private _credentialsRefresh: Promise<boolean> = null;
+    private _credentialsGeneration = 0; // Incremented each time the credentials are refreshed.
+    private _requestTimeoutMs = 0; // Anything falsy or < 1 means no timeout.
+    private _inactivityTimeoutMs = 0; // Anything falsy or < 1 means no timeout.
     private _allFilesQueuedCallback: (fileUploads: FileUploadType[]) => FileUploadCallbackReturn<FileUploadType[]>;
     private _fileUploadedCallback: (fileUpload: FileUploadType) => FileUploadCallbackReturn<FileUploadType>;
     private _allFilesUploadedCallback: (fileUploads: FileUploadType[]) => FileUploadCallbackReturn<FileUploadType[]>;
@@ -60,6 +163,10 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
     private _dragAndDropFlagSelector: string;
     private _disallowedContentTypeErrorMessage: (file: File) => string;
     private _disallowedContentSizeErrorMessage: (file: File) => string;
+    private _fileTooSmallErrorMessage: (file: File) => string;
+    private _emptyFileErrorMessage: (file: File) => string;
+    private _batchSizeLimitErrorMessage: (files: File[]) => string;
+    private _totalSizeLimitErrorMessage: (files: File[]) => string;
     private _subscriptions: Subscription[] = [];
 
     /**
@@ -70,6 +177,11 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
      * A stream of any errors that occur during upload.
      */
     public errorStream = this._errorSubject.asObservable();
+    /**
+     * A stream of the combined progress of every `FileUpload` emitted by `streamFileUploads`,
+     * weighted by file size.
+     */
+    public totalProgressStream: Observable<ITotalProgress> = this._fileUploadsSubject.pipe(map(getTotalProgress));
 
     // Helper API.
     /**
@@ -113,7 +225,11 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
     ) {
         this._defaultFileSource = Uploader.createFileInputElement();
         this.errorStream.subscribe((error) => {
-            console.error(`[RxJs Uploader] ${error}`);
+            if (error instanceof UploadRetryError || error instanceof UploadCancelledError) {
+                console.warn(`[RxJs Uploader] ${error}`);
+            } else {
+                console.error(`[RxJs Uploader] ${error}`);
+            }
         });
 
         if (config) {
@@ -121,12 +237,57 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
                 if (typeof config.allowedContentTypes !== 'undefined') {
                     this.setAllowedContentTypes(config.allowedContentTypes);
                 }
+                if (typeof config.disallowedContentTypes !== 'undefined') {
+                    this.setDisallowedContentTypes(config.disallowedContentTypes);
+                }
+                if (typeof config.verifyContentType !== 'undefined') {
+                    this.setVerifyContentType(config.verifyContentType);
+                }
+                if (typeof config.validators !== 'undefined') {
+                    this.setValidators(config.validators);
+                }
+                if (typeof config.keepRejectedFiles !== 'undefined') {
+                    this.setKeepRejectedFiles(config.keepRejectedFiles);
+                }
+                if (typeof config.duplicateFilePolicy !== 'undefined') {
+                    this.setDuplicateFilePolicy(config.duplicateFilePolicy);
+                }
+                if (typeof config.preprocessors !== 'undefined') {
+                    this.setPreprocessors(config.preprocessors);
+                }
+                if (typeof config.compressionOptions !== 'undefined') {
+                    this.setCompressionOptions(config.compressionOptions);
+                }
+                if (typeof config.encryptionOptions !== 'undefined') {
+                    this.setEncryptionOptions(config.encryptionOptions);
+                }
+                if (typeof config.checksumOptions !== 'undefined') {
+                    this.setChecksumOptions(config.checksumOptions);
+                }
                 if (typeof config.fileCountLimit !== 'undefined') {
                     this.setFileCountLimit(config.fileCountLimit);
                 }
                 if (typeof config.fileSizeLimitMb !== 'undefined') {
                     this.setFileSizeLimitMb(config.fileSizeLimitMb);
                 }
+                if (typeof config.fileSizeLimitBytes !== 'undefined') {
+                    this.setFileSizeLimitBytes(config.fileSizeLimitBytes);
+                }
+                if (typeof config.minFileSizeBytes !== 'undefined') {
+                    this.setMinFileSizeBytes(config.minFileSizeBytes);
+                }
+                if (typeof config.rejectEmptyFiles !== 'undefined') {
+                    this.setRejectEmptyFiles(config.rejectEmptyFiles);
+                }
+                if (typeof config.batchSizeLimitBytes !== 'undefined') {
+                    this.setBatchSizeLimitBytes(config.batchSizeLimitBytes);
+                }
+                if (typeof config.totalSizeLimitBytes !== 'undefined') {
+                    this.setTotalSizeLimitBytes(config.totalSizeLimitBytes);
+                }
+                if (typeof config.maxConcurrentUploads !== 'undefined') {
+                    this.setMaxConcurrentUploads(config.maxConcurrentUploads);
+                }
                 if (typeof config.onFileCountLimitExceeded !== 'undefined') {
                     this.setOnFileCountLimitExceeded(config.onFileCountLimitExceeded);
                 }
@@ -142,6 +303,36 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
                 if (typeof config.fileUploadType !== 'undefined') {
                     this.setFileUploadType(config.fileUploadType);
                 }
+                if (typeof config.transport !== 'undefined') {
+                    this.setTransport(config.transport);
+                }
+                if (typeof config.uploadStrategy !== 'undefined') {
+                    this.setUploadStrategy(config.uploadStrategy);
+                }
+                if (typeof config.interceptors !== 'undefined') {
+                    this.setInterceptors(config.interceptors);
+                }
+                if (typeof config.retryPolicy !== 'undefined') {
+                    this.setRetryPolicy(config.retryPolicy);
+                }
+                if (typeof config.responseType !== 'undefined') {
+                    this.setResponseType(config.responseType);
+                }
+                if (typeof config.isSuccess !== 'undefined') {
+                    this.setIsSuccess(config.isSuccess);
+                }
+                if (typeof config.uploadErrorMessage !== 'undefined') {
+                    this.setUploadErrorMessage(config.uploadErrorMessage);
+                }
+                if (typeof config.onUnauthorized !== 'undefined') {
+                    this.setOnUnauthorized(config.onUnauthorized);
+                }
+                if (typeof config.requestTimeoutMs !== 'undefined') {
+                    this.setRequestTimeoutMs(config.requestTimeoutMs);
+                }
+                if (typeof config.inactivityTimeoutMs !== 'undefined') {
+                    this.setInactivityTimeoutMs(config.inactivityTimeoutMs);
+                }
                 if (typeof config.allFilesQueuedCallback !== 'undefined') {
                     this.setAllFilesQueuedCallback(config.allFilesQueuedCallback);
                 }
@@ -160,6 +351,18 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
                 if (typeof config.disallowedContentSizeErrorMessage !== 'undefined') {
                     this.setDisallowedContentSizeErrorMessage(config.disallowedContentSizeErrorMessage);
                 }
+                if (typeof config.fileTooSmallErrorMessage !== 'undefined') {
+                    this.setFileTooSmallErrorMessage(config.fileTooSmallErrorMessage);
+                }
+                if (typeof config.emptyFileErrorMessage !== 'undefined') {
+                    this.setEmptyFileErrorMessage(config.emptyFileErrorMessage);
+                }
+                if (typeof config.batchSizeLimitErrorMessage !== 'undefined') {
+                    this.setBatchSizeLimitErrorMessage(config.batchSizeLimitErrorMessage);
+                }
+                if (typeof config.totalSizeLimitErrorMessage !== 'undefined') {
+                    this.setTotalSizeLimitErrorMessage(config.totalSizeLimitErrorMessage);
+                }
             } else {
                 // TODO(dmayerdesign): Remove in v1.4.
                 if (config === 'multiple') {
@@ -194,7 +397,18 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
 
         return this._streamFileUploads(
             this._registerSources(..._fileSources)
-        );
+        )
+            .pipe(tap((fileUploads) => this._fileUploadsSubject.next(fileUploads || [])));
+    }
+
+    /** Pause every `FileUpload` which hasn't finished uploading. */
+    public pauseAll(): void {
+        this._fileUploadSubjectsMap.forEach((fileUploadSubject) => fileUploadSubject.getValue().pause());
+    }
+
+    /** Resume every paused `FileUpload`. */
+    public resumeAll(): void {
+        this._fileUploadSubjectsMap.forEach((fileUploadSubject) => fileUploadSubject.getValue().resume());
     }
 
     /**
@@ -202,8 +416,11 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
      * subscriptions, and set all associated file input elements' `value` property to `''`.
      */
     public clear(): void {
+        this._uploadQueue.clear();
         this._fileUploadsStreamResetSubject.next(null);
+        this._fileUploadSubjectsMap.forEach((fileUploadSubject) => fileUploadSubject.getValue().revokePreviews());
         this._fileUploadSubjectsMap.clear();
+        this._duplicateKeys.clear();
         this._subscriptions.forEach((subscription) => subscription.unsubscribe());
         this._fileInputElements.forEach((inputElement) => {
             inputElement.value = '';
@@ -268,11 +485,105 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         return this;
     }
 
+    /**
+     * Set the content types which may be uploaded, written like the entries of an `accept`
+     * attribute: MIME types (`image/png`), wildcards (`image/*`, or `*` for anything) or
+     * extensions (`.docx`). Defaults to `['*']`.
+     */
     public setAllowedContentTypes(contentTypes: string[]): this {
         this._allowedContentTypes = contentTypes;
         return this;
     }
 
+    /**
+     * Set the content types which may not be uploaded, even if they match `allowedContentTypes`
+     * (e.g. `['image/svg+xml', '.exe']`). Written the same way as `allowedContentTypes`.
+     */
+    public setDisallowedContentTypes(contentTypes: string[]): this {
+        this._disallowedContentTypes = contentTypes;
+        return this;
+    }
+
+    /**
+     * Set to `true` to read the first bytes of each file and reject it with a
+     * `DisallowedContentTypeError` if the format they reveal (e.g. PNG, PDF, ZIP or a Windows
+     * executable) doesn't match the file's type or extension. Files whose format has no
+     * recognizable signature (e.g. plain text) are only checked against the content type rules.
+     * Defaults to `false`.
+     */
+    public setVerifyContentType(verifyContentType: boolean): this {
+        this._verifyContentType = verifyContentType;
+        return this;
+    }
+
+    /**
+     * Set functions which check each file before it's uploaded, after the size and content type
+     * checks. Each one returns (or resolves with) a `FileValidationError`, or an array of them, if
+     * the file is invalid. Every error is emitted on `errorStream`.
+     */
+    public setValidators(validators: FileValidator<FileUploadType>[]): this {
+        this._validators = validators;
+        return this;
+    }
+
+    /**
+     * Set to `true` to keep files which fail validation in the stream, with a state of
+     * `ProgressState.Rejected` and the reasons in `fileUpload.validationErrors`, instead of
+     * dropping them. Rejected files are never uploaded. Defaults to `false`.
+     */
+    public setKeepRejectedFiles(keepRejectedFiles: boolean): this {
+        this._keepRejectedFiles = keepRejectedFiles;
+        return this;
+    }
+
+    /**
+     * Set how files which have already been added (e.g. the same file chosen twice) are detected and
+     * handled. Set to `null` to allow duplicates, the default.
+     */
+    public setDuplicateFilePolicy(duplicateFilePolicy: IDuplicateFilePolicy): this {
+        this._duplicateFilePolicy = duplicateFilePolicy;
+        return this;
+    }
+
+    /**
+     * Set the preprocessors which transform each file, in order, before it's uploaded (e.g. an
+     * `ImageResizePreprocessor`). The selected file stays available as `fileUpload.originalFile`.
+     */
+    public setPreprocessors(preprocessors: IFilePreprocessor<FileUploadType>[]): this {
+        this._preprocessors = preprocessors;
+        return this;
+    }
+
+    /**
+     * Compress each file uploaded as the request body (see `setUploadFileAsBody`) whose content type
+     * matches the `compressionOptions`, and send its `Content-Encoding`. Progress is still reported
+     * in terms of the uncompressed size. Set to `null` to upload files as they are, the default.
+     */
+    public setCompressionOptions(compressionOptions: ICompressionOptions): this {
+        this._compressionOptions = compressionOptions;
+        return this;
+    }
+
+    /**
+     * Encrypt each file (after preprocessing and compression) with AES-GCM before it's uploaded, so that the server
+     * only receives ciphertext. How it was encrypted is recorded as `fileUpload.encryption`, for the
+     * `requestOptionsFactory` to send along. Set to `null` to upload files as they are, the default.
+     */
+    public setEncryptionOptions(encryptionOptions: IEncryptionOptions<FileUploadType>): this {
+        this._encryptionOptions = encryptionOptions;
+        return this;
+    }
+
+    /**
+     * Compute a checksum of each file (after preprocessing, compression and encryption) before it's uploaded, send it with the
+     * request and, if the server echoes one back, fail the upload when they don't match. Set to
+     * `null` to skip checksums, the default.
+     */
+    public setChecksumOptions(checksumOptions: IChecksumOptions<FileUploadType>): this {
+        this._checksumOptions = checksumOptions;
+        return this;
+    }
+
     public setFileCountLimit(limit: number | (() => number)): this {
         this._fileCountLimit = limit;
         return this;
@@ -283,6 +594,55 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         return this;
     }
 
+    /**
+     * Set the maximum size of a single file, in bytes. Unlike `fileSizeLimitMb`, a file of exactly
+     * this size is allowed.
+     */
+    public setFileSizeLimitBytes(limit: number): this {
+        this._fileSizeLimitBytes = limit;
+        return this;
+    }
+
+    /** Set the minimum size of a single file, in bytes. */
+    public setMinFileSizeBytes(limit: number): this {
+        this._minFileSizeBytes = limit;
+        return this;
+    }
+
+    /** Set to `true` to reject files which are empty (0 bytes). Defaults to `false`. */
+    public setRejectEmptyFiles(rejectEmptyFiles: boolean): this {
+        this._rejectEmptyFiles = rejectEmptyFiles;
+        return this;
+    }
+
+    /**
+     * Set the maximum total size, in bytes, of the files selected (or dropped) at once. If they're
+     * larger, none of them are added.
+     */
+    public setBatchSizeLimitBytes(limit: number): this {
+        this._batchSizeLimitBytes = limit;
+        return this;
+    }
+
+    /**
+     * Set the maximum total size, in bytes, of the files in the `Uploader` (files which have been
+     * removed or rejected don't count). If adding the files selected (or dropped) at once would
+     * exceed it, none of them are added.
+     */
+    public setTotalSizeLimitBytes(limit: number): this {
+        this._totalSizeLimitBytes = limit;
+        return this;
+    }
+
+    /**
+     * Set the maximum number of files uploaded at the same time. Further uploads are queued
+     * until a slot is free. Anything falsy or < 1 means infinity.
+     */
+    public setMaxConcurrentUploads(limit: number): this {
+        this._maxConcurrentUploads = limit;
+        return this;
+    }
+
     public setUploadFileAsBody(uploadFileAsBody: boolean): this {
         this._uploadFileAsBody = uploadFileAsBody;
         return this;
@@ -333,11 +693,146 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         return this;
     }
 
+    public setFileTooSmallErrorMessage(
+        callback: (file: File) => string
+    ): this {
+        this._fileTooSmallErrorMessage = callback;
+        return this;
+    }
+
+    public setEmptyFileErrorMessage(
+        callback: (file: File) => string
+    ): this {
+        this._emptyFileErrorMessage = callback;
+        return this;
+    }
+
+    public setBatchSizeLimitErrorMessage(
+        callback: (files: File[]) => string
+    ): this {
+        this._batchSizeLimitErrorMessage = callback;
+        return this;
+    }
+
+    public setTotalSizeLimitErrorMessage(
+        callback: (files: File[]) => string
+    ): this {
+        this._totalSizeLimitErrorMessage = callback;
+        return this;
+    }
+
     public setFileUploadType(fileUploadType: any): this {
         this._fileUploadType = fileUploadType;
         return this;
     }
 
+    /**
+     * Set the `IUploadTransport` used to send upload requests. Defaults to an `XhrUploadTransport`.
+     */
+    public setTransport(transport: IUploadTransport): this {
+        this._transport = transport;
+        return this;
+    }
+
+    /**
+     * Set the `IUploadStrategy` used to upload each file (e.g. a `TusUploadStrategy`). By default,
+     * each file is uploaded in a single request built by `FileUpload#createRequest`.
+     */
+    public setUploadStrategy(uploadStrategy: IUploadStrategy<FileUploadType>): this {
+        this._uploadStrategy = uploadStrategy;
+        if (this._uploadStrategyErrorSubscription) {
+            this._uploadStrategyErrorSubscription.unsubscribe();
+            this._uploadStrategyErrorSubscription = null;
+        }
+        if (uploadStrategy && uploadStrategy.errorStream) {
+            this._uploadStrategyErrorSubscription = uploadStrategy.errorStream
+                .subscribe((error) => this._errorSubject.next(error));
+        }
+        return this;
+    }
+
+    /**
+     * Set the interceptors which see, and can rewrite, each request before the transport sends it
+     * and each response before the `FileUpload`'s state is set.
+     */
+    public setInterceptors(interceptors: IUploadInterceptor<FileUploadType>[]): this {
+        this._interceptors = interceptors;
+        return this;
+    }
+
+    /**
+     * Set the `IRetryPolicy` used to automatically retry failed uploads. Options which aren't
+     * specified take their values from `defaultRetryPolicy`. By default, uploads aren't retried.
+     */
+    public setRetryPolicy(retryPolicy: IRetryPolicy): this {
+        this._retryPolicy = retryPolicy;
+        return this;
+    }
+
+    /**
+     * Set how each upload's response body is parsed into `fileUpload.responseBody`: one of the
+     * `UploadResponseType`s, or a function which does the parsing. Defaults to
+     * `UploadResponseType.Json`.
+     */
+    public setResponseType(responseType: UploadResponseType | UploadResponseParser<FileUploadType>): this {
+        this._responseType = responseType;
+        return this;
+    }
+
+    /**
+     * Set the function which decides whether an upload succeeded, given its response. By then,
+     * `fileUpload.responseBody` has been parsed. Defaults to checking for a `2xx` or `3xx` status.
+     */
+    public setIsSuccess(
+        callback: (response: IUploadTransportResponse, fileUpload: FileUploadType) => boolean
+    ): this {
+        this._isSuccess = callback;
+        return this;
+    }
+
+    /**
+     * Set the function which returns the message of the `UploadHttpError` for an unsuccessful
+     * response, also set as `fileUpload.errorMessage`. Useful to show the server's own message.
+     */
+    public setUploadErrorMessage(
+        callback: (response: IUploadTransportResponse, fileUpload: FileUploadType) => string
+    ): this {
+        this._uploadErrorMessage = callback;
+        return this;
+    }
+
+    /**
+     * Set the function which refreshes the credentials (e.g. an expired bearer token) when an upload
+     * gets a `401` response. Once it resolves, the `requestOptionsFactory` is called again and every
+     * upload which got a `401` is replayed. Uploads which get a `401` while a refresh is in progress
+     * wait for it instead of starting another. If it resolves with `false` or rejects, those uploads
+     * fail with an `UploadHttpError` (or are retried, if the `retryPolicy` allows it).
+     */
+    public setOnUnauthorized(
+        callback: (response: IUploadTransportResponse, fileUpload: FileUploadType) => Promise<boolean | void>
+    ): this {
+        this._onUnauthorized = callback;
+        return this;
+    }
+
+    /**
+     * Set the maximum number of milliseconds an upload may take (including every request made by
+     * the upload strategy, if any) before it's aborted with an `UploadTimeoutError`.
+     */
+    public setRequestTimeoutMs(timeoutMs: number): this {
+        this._requestTimeoutMs = timeoutMs;
+        return this;
+    }
+
+    /**
+     * Set the maximum number of milliseconds an upload may go without any progress before it's
+     * considered stalled and aborted with an `UploadTimeoutError`.
+     */
+    public setInactivityTimeoutMs(timeoutMs: number): this {
+        this._inactivityTimeoutMs = timeoutMs;
+        return this;
+    }
+
     // Getters.
     public getRequestUrl(): string {
         return this._requestOptions.url;
@@ -351,6 +846,42 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         return this._allowedContentTypes;
     }
 
+    public getDisallowedContentTypes(): string[] {
+        return this._disallowedContentTypes;
+    }
+
+    public getVerifyContentType(): boolean {
+        return this._verifyContentType;
+    }
+
+    public getValidators(): FileValidator<FileUploadType>[] {
+        return this._validators;
+    }
+
+    public getKeepRejectedFiles(): boolean {
+        return this._keepRejectedFiles;
+    }
+
+    public getDuplicateFilePolicy(): IDuplicateFilePolicy {
+        return this._duplicateFilePolicy;
+    }
+
+    public getPreprocessors(): IFilePreprocessor<FileUploadType>[] {
+        return this._preprocessors;
+    }
+
+    public getCompressionOptions(): ICompressionOptions {
+        return this._compressionOptions;
+    }
+
+    public getEncryptionOptions(): IEncryptionOptions<FileUploadType> {
+        return this._encryptionOptions;
+    }
+
+    public getChecksumOptions(): IChecksumOptions<FileUploadType> {
+        return this._checksumOptions;
+    }
+
     public getFileCountLimit(): number | (() => number) {
         return this._fileCountLimit;
     }
@@ -359,6 +890,30 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         return this._fileSizeLimitMb;
     }
 
+    public getFileSizeLimitBytes(): number {
+        return this._fileSizeLimitBytes;
+    }
+
+    public getMinFileSizeBytes(): number {
+        return this._minFileSizeBytes;
+    }
+
+    public getRejectEmptyFiles(): boolean {
+        return this._rejectEmptyFiles;
+    }
+
+    public getBatchSizeLimitBytes(): number {
+        return this._batchSizeLimitBytes;
+    }
+
+    public getTotalSizeLimitBytes(): number {
+        return this._totalSizeLimitBytes;
+    }
+
+    public getMaxConcurrentUploads(): number {
+        return this._maxConcurrentUploads;
+    }
+
     public getOnFileCountLimitExceeded(): (fileCountLimit: number) => void {
         return this._onFileCountLimitExceeded;
     }
@@ -386,6 +941,46 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         return this._fileUploadType;
     }
 
+    public getTransport(): IUploadTransport {
+        return this._transport;
+    }
+
+    public getUploadStrategy(): IUploadStrategy<FileUploadType> {
+        return this._uploadStrategy;
+    }
+
+    public getInterceptors(): IUploadInterceptor<FileUploadType>[] {
+        return this._interceptors;
+    }
+
+    public getRetryPolicy(): IRetryPolicy {
+        return this._retryPolicy;
+    }
+
+    public getResponseType(): UploadResponseType | UploadResponseParser<FileUploadType> {
+        return this._responseType;
+    }
+
+    public getIsSuccess(): (response: IUploadTransportResponse, fileUpload: FileUploadType) => boolean {
+        return this._isSuccess;
+    }
+
+    public getUploadErrorMessage(): (response: IUploadTransportResponse, fileUpload: FileUploadType) => string {
+        return this._uploadErrorMessage;
+    }
+
+    public getOnUnauthorized(): (response: IUploadTransportResponse, fileUpload: FileUploadType) => Promise<boolean | void> {
+        return this._onUnauthorized;
+    }
+
+    public getRequestTimeoutMs(): number {
+        return this._requestTimeoutMs;
+    }
+
+    public getInactivityTimeoutMs(): number {
+        return this._inactivityTimeoutMs;
+    }
+
     public getFileInputElements(): HTMLInputElement[] {
         return this._fileInputElements;
     }
@@ -395,7 +990,7 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
     }
 
     public getInputAccept(): string {
-        return this._allowedContentTypes.join(',');
+        return getAcceptAttribute(this._allowedContentTypes) || '*';
     }
 
     // Private methods.
@@ -440,9 +1035,10 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         const fileUploadsSubject = new Subject<FileUploadType[]>();
         this._fileInputElements = uniq([...this._fileInputElements, inputElement]);
 
-        if (this._allowedContentTypes.length && this._allowedContentTypes.indexOf('*') === -1) {
+        const accept = getAcceptAttribute(this._allowedContentTypes);
+        if (accept) {
             this._fileInputElements.forEach((fileInputElement) => {
-                setAcceptAttribute(fileInputElement, this.getInputAccept());
+                setAcceptAttribute(fileInputElement, accept);
             });
         }
 
@@ -495,13 +1091,13 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         observable: Observable<T>,
         successCallback: (value: T) => any,
         errorCallback?: (...args: any[]) => any
-    ): void {
-        this._subscriptions.push(
-            observable.subscribe(
-                (value) => successCallback(value),
-                (...args) => typeof errorCallback === 'function' ? errorCallback(...args) : {}
-            )
+    ): Subscription {
+        const subscription = observable.subscribe(
+            (value) => successCallback(value),
+            (...args) => typeof errorCallback === 'function' ? errorCallback(...args) : {}
         );
+        this._subscriptions.push(subscription);
+        return subscription;
     }
 
     private _createFileUploads(_files: File[] | FileList): Observable<FileUploadType[]> {
@@ -509,46 +1105,146 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         if (_files instanceof FileList) {
             files = Array.from(_files);
         }
-        // Filter out disallowed file types/sizes.
-        const allowedFiles: File[] = [];
-        for (const file of files) {
-            const fileType = file.type;
-            // First, check if the file is under the size limit.
-            if (!this._fileSizeLimitMb || file.size < this._fileSizeLimitMb * BYTES_PER_MB) {
-                // Then, check if the file type is supported.
-                // FIXME(dmayerdesign): Look into why File.type is sometimes empty in Edge.
-                // As a result, when the fileType is empty, we need to admit we don't know anything
-                // about the file type and just allow the check to pass.
-                if (fileType === ''
-                    || !!this._allowedContentTypes.find((contentType) => contentType === '*')
-                    || this._allowedContentTypes.some((contentType) => contentType === fileType)) {
-                    allowedFiles.push(file);
-                } else {
-                    let errorMessage = `${file.name} failed to upload because its content type, ${fileType}, is not allowed.`;
-                    if (this._disallowedContentTypeErrorMessage) {
-                        errorMessage = this._disallowedContentTypeErrorMessage(file);
-                    }
+        return observableFrom(Promise.all(uniq(files).map((file) => this._createFileUpload(file)))).pipe(
+            // Filter out rejected files, unless they should be kept.
+            map((fileUploads) => fileUploads.filter((fileUpload) => !!fileUpload))
+        );
+    }
 
-                    this._errorSubject.next(new DisallowedContentTypeError(errorMessage));
-                }
-            } else {
-                let errorMessage = `${file.name} is larger than the limit of ${this._fileSizeLimitMb}MB for a single file. Please compress or split the file into smaller files.`;
-                if (this._disallowedContentSizeErrorMessage) {
-                    errorMessage = this._disallowedContentSizeErrorMessage(file);
-                }
+    /** Resolves with a new `FileUpload` for the file, or `null` if it's invalid and should be dropped. */
+    private async _createFileUpload(file: File): Promise<FileUploadType> {
+        const fileUpload = new this._fileUploadType(file) as FileUploadType;
+        const validationErrors = await this._validateFile(file, fileUpload);
+        validationErrors.forEach((error) => {
+            error.fileUpload = error.fileUpload || fileUpload;
+            this._errorSubject.next(error);
+        });
+        if (validationErrors.length) {
+            if (!this._keepRejectedFiles) {
+                return null;
+            }
+            fileUpload.validationErrors = validationErrors;
+            // Puts it in the `Rejected` state, with the first validation error as its `error`.
+            fileUpload.reset();
+        } else if (this._duplicateFilePolicy) {
+            this._duplicateKeys.set(fileUpload.id, await this._getDuplicateKey(file));
+        }
+        this._fileUploadSubjectsMap.set(fileUpload.id, new BehaviorSubject<FileUploadType>(fileUpload));
+        return fileUpload;
+    }
 
-                this._errorSubject.next(new FileSizeLimitExceededError(errorMessage));
+    /** Resolves with a string which is the same for files which are duplicates of each other. */
+    private async _getDuplicateKey(file: File): Promise<string> {
+        if (this._duplicateFilePolicy.detectBy === DuplicateFileDetection.ContentHash) {
+            try {
+                return `${file.size}:${await computeChecksum(file, ChecksumAlgorithm.Sha256)}`;
+            } catch (error) {
+                // The file can't be read, so compare the files' metadata instead.
             }
         }
-        const fileUploads = uniq(allowedFiles).map((file: File) => {
-            const initialFileUpload = new this._fileUploadType(file) as FileUploadType;
-            const fileUploadSubject = new BehaviorSubject<FileUploadType>(initialFileUpload);
-            this._fileUploadSubjectsMap.set(initialFileUpload.id, fileUploadSubject);
+        return `${file.name}:${file.size}:${file.lastModified}`;
+    }
 
-            return initialFileUpload;
-        });
+    /** Resolves with the reasons the file may not be uploaded, if any. */
+    private async _validateFile(file: File, fileUpload: FileUploadType): Promise<FileUploadError[]> {
+        const fileType = file.type;
+        // First, check if the file is within the size limits.
+        if (this._rejectEmptyFiles && file.size === 0) {
+            const errorMessage = this._emptyFileErrorMessage
+                ? this._emptyFileErrorMessage(file)
+                : `${file.name} failed to upload because it is empty.`;
+            return [ new EmptyFileError(errorMessage) ];
+        }
+        if (this._minFileSizeBytes && file.size < this._minFileSizeBytes) {
+            const errorMessage = this._fileTooSmallErrorMessage
+                ? this._fileTooSmallErrorMessage(file)
+                : `${file.name} is smaller than the minimum of ${formatBytes(this._minFileSizeBytes)} for a single file.`;
+            return [ new FileTooSmallError(errorMessage) ];
+        }
+        const exceedsFileSizeLimitMb = this._fileSizeLimitMb && file.size >= this._fileSizeLimitMb * BYTES_PER_MB;
+        if (exceedsFileSizeLimitMb || (this._fileSizeLimitBytes && file.size > this._fileSizeLimitBytes)) {
+            const limit = exceedsFileSizeLimitMb ? `${this._fileSizeLimitMb}MB` : formatBytes(this._fileSizeLimitBytes);
+            let errorMessage = `${file.name} is larger than the limit of ${limit} for a single file. Please compress or split the file into smaller files.`;
+            if (this._disallowedContentSizeErrorMessage) {
+                errorMessage = this._disallowedContentSizeErrorMessage(file);
+            }
+            return [ new FileSizeLimitExceededError(errorMessage) ];
+        }
 
-        return observableOf(fileUploads);
+        // Then, check if the file type is supported.
+        if (!isContentTypeAllowed(file, this._allowedContentTypes, this._disallowedContentTypes)) {
+            let errorMessage = fileType
+                ? `${file.name} failed to upload because its content type, ${fileType}, is not allowed.`
+                : `${file.name} failed to upload because its content type is not allowed.`;
+            if (this._disallowedContentTypeErrorMessage) {
+                errorMessage = this._disallowedContentTypeErrorMessage(file);
+            }
+            return [ new DisallowedContentTypeError(errorMessage) ];
+        }
+
+        // Then, check that the file's content is what its type claims it is.
+        if (this._verifyContentType) {
+            const contentError = await this._verifyFileContent(file);
+            if (contentError) {
+                return [ contentError ];
+            }
+        }
+
+        // Finally, run the custom validators.
+        const results = await Promise.all(this._validators.map((validator) => this._runValidator(validator, file, fileUpload)));
+        return results.reduce((errors, result) => errors.concat(result), [] as FileUploadError[]);
+    }
+
+    private async _runValidator(
+        validator: FileValidator<FileUploadType>,
+        file: File,
+        fileUpload: FileUploadType
+    ): Promise<FileUploadError[]> {
+        let result: FileValidatorResult;
+        try {
+            result = await validator(file, fileUpload);
+        } catch (error) {
+            result = error instanceof FileUploadError
+                ? error
+                : new FileValidationError(error && error.message ? error.message : `${file.name} is not valid.`, fileUpload);
+        }
+        if (!result) {
+            return [];
+        }
+        return Array.isArray(result) ? result : [ result ];
+    }
+
+    private async _verifyFileContent(file: File): Promise<FileUploadError> {
+        let signature: IContentTypeSignature;
+        let errorMessage: string;
+        try {
+            signature = await sniffContentType(file);
+        } catch (error) {
+            errorMessage = `${file.name} failed to upload because its content could not be read.`;
+        }
+        if (signature) {
+            // When the browser doesn't know the file's type, the content type rules are checked
+            // against the detected type instead.
+            const detectedFile = { name: file.name, type: file.type || signature.type };
+            if (!matchesContentTypeSignature(file, signature)) {
+                errorMessage = `${file.name} failed to upload because its content (${signature.type}) doesn't match its type.`;
+            } else if (!isContentTypeAllowed(detectedFile, this._allowedContentTypes, this._disallowedContentTypes)) {
+                errorMessage = `${file.name} failed to upload because its content type, ${signature.type}, is not allowed.`;
+            }
+        } else if (!errorMessage) {
+            // Content in no recognized format can't be in a format which has a signature.
+            const declaredSignature = getDeclaredContentTypeSignature(file);
+            if (declaredSignature) {
+                errorMessage = `${file.name} failed to upload because its content doesn't match its type (${declaredSignature.type}).`;
+            }
+        }
+        if (!errorMessage) {
+            return null;
+        }
+        if (this._disallowedContentTypeErrorMessage) {
+            errorMessage = this._disallowedContentTypeErrorMessage(file);
+        }
+        return new DisallowedContentTypeError(errorMessage);
     }
 
     private _streamFileUploads(fileUploadsStream: Observable<FileUploadType[]>): Observable<FileUploadType[]> {
@@ -597,7 +1293,7 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
     private _createExecutedFileUploadsStream(_fileUploads: FileUploadType[]): Observable<FileUploadType[]> {
         const fileUploadStreams = _fileUploads
             .map((fileUpload) => {
-                if (!fileUpload.uploadHasStarted) {
+                if (!fileUpload.uploadHasStarted && !fileUpload.rejected) {
                     return this._executeFileUpload(fileUpload);
                 } else {
                     return observableOf(fileUpload);
@@ -617,7 +1313,14 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
             fileUploadsStream = fileUploadsStream
                 .pipe(
                     switchMap((_fileUploads) => {
-                        if (_fileUploads.every((fileUpload) => fileUpload.uploaded)) {
+                        // Cancelled and rejected uploads don't hold up the callback, but at least one upload
+                        // must succeed.
+                        if (
+                            _fileUploads.every((fileUpload) =>
+                                fileUpload.uploaded || fileUpload.cancelled || fileUpload.rejected
+                            )
+                            && _fileUploads.some((fileUpload) => fileUpload.uploaded)
+                        ) {
                             const allFilesUploadedCallbackResult = this._allFilesUploadedCallback(_fileUploads);
                             if (allFilesUploadedCallbackResult) {
                                 if (typeof (allFilesUploadedCallbackResult as Promise<FileUploadType[]>).then === 'function') {
@@ -637,12 +1340,6 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
 
     private _uploadFile(fileUpload: FileUploadType): Observable<FileUploadType> {
         let fileUploadSubject = this._fileUploadSubjectsMap.get(fileUpload.id);
-        let request: any;
-        if (this._uploadFileAsBody) {
-            request = fileUpload.createRequestFileAsBody();
-        } else {
-            request = fileUpload.createRequest();
-        }
 
         // TODO: Figure out why _fileUploadSubjectsMap sometimes doesn't have this entry.
         if (!fileUploadSubject) {
@@ -650,136 +1347,437 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
             this._fileUploadSubjectsMap.set(fileUpload.id, fileUploadSubject);
         }
 
-        const handleError = (errorResponse: any): void => {
+        let transferSubscription: Subscription;
+        let retrySubscription: Subscription;
+        // The credentials the request options were set with, and whether this attempt was replayed after a `401`.
+        let credentialsGeneration = this._credentialsGeneration;
+        let hasReplayed = false;
+        const replaySubject = new Subject<void>();
+        // The preparation is shared by every attempt until it fails, so a retry can run it again.
+        const unpreparedFile = fileUpload.file;
+        let preparation: Promise<void> = null;
+        const prepare = () => {
+            if (!preparation) {
+                preparation = this._prepareUpload(fileUpload, unpreparedFile).catch((error) => {
+                    preparation = null;
+                    throw error;
+                });
+            }
+            return preparation;
+        };
+        const stopStream = merge(
+            fileUpload.isMarkedForRemovalStream.pipe(
+                filter((isMarkedForRemoval) => isMarkedForRemoval)
+            ),
+            this._fileUploadsStreamResetSubject.asObservable()
+        );
+
+        // If the retry policy allows it, schedule another attempt and return `true`.
+        const retryIfRetryable = (response: IUploadTransportResponse, error: FileUploadError): boolean => {
             const _fileUpload = fileUploadSubject.getValue();
-            _fileUpload.progress = {
-                percent: 100,
-                state: ProgressState.Failed
-            };
+            const retryPolicy = this._retryPolicy ? { ...defaultRetryPolicy, ...this._retryPolicy } : null;
+            if (
+                !retryPolicy
+                || _fileUpload.attemptCount >= retryPolicy.maxAttempts
+                || !isRetryable(retryPolicy, _fileUpload, response, error)
+            ) {
+                return false;
+            }
+            const delayMs = getRetryDelayMs(retryPolicy, _fileUpload.attemptCount, response);
+            if (delayMs === null) {
+                return false;
+            }
+            this._errorSubject.next(new UploadRetryError(
+                `${_fileUpload.name} failed to upload (attempt ${_fileUpload.attemptCount} of ${retryPolicy.maxAttempts}). `
+                    + `Retrying in ${Math.round(delayMs / 1000)}s.`,
+                _fileUpload,
+                _fileUpload.attemptCount,
+                delayMs,
+                error
+            ));
+            this._setProgress(fileUploadSubject, { percent: 0, state: ProgressState.Queued });
+            retrySubscription = this._subscribeTemporarily(
+                timer(delayMs).pipe(takeUntil(stopStream)),
+                () => fileUpload.retry()
+            );
+            return true;
+        };
 
-            if (errorResponse) {
-                _fileUpload.responseBody = errorResponse;
-                _fileUpload.responseCode = errorResponse.status || errorResponse.code;
-                this._errorSubject.next(errorResponse);
+        // If the response is a `401` and there's an `onUnauthorized` hook, replay the request once the
+        // credentials have been refreshed (by this upload or another) and return `true`.
+        const replayIfUnauthorized = (response: IUploadTransportResponse, error: FileUploadError): boolean => {
+            if (typeof this._onUnauthorized !== 'function' || response.status !== 401 || hasReplayed) {
+                return false;
             }
+            hasReplayed = true;
+            this._setProgress(fileUploadSubject, { percent: 0, state: ProgressState.Queued });
+            const refresh = credentialsGeneration < this._credentialsGeneration
+                ? Promise.resolve(true)
+                : this._refreshCredentials(response, fileUploadSubject.getValue());
+            const replay = refresh.then((isRefreshed) => {
+                if (!isRefreshed) {
+                    return false;
+                }
+                credentialsGeneration = this._credentialsGeneration;
+                return this._setRequestOptions(fileUpload).then(() => true);
+            });
+            retrySubscription = this._subscribeTemporarily(
+                observableFrom(replay).pipe(takeUntil(stopStream)),
+                (isReplayable) => {
+                    if (isReplayable) {
+                        replaySubject.next();
+                    } else if (!retryIfRetryable(response, error)) {
+                        this._handleTransferError(fileUploadSubject, error);
+                    }
+                },
+                (requestOptionsError) => this._handleTransferError(
+                    fileUploadSubject,
+                    this._toFileUploadError(fileUpload, requestOptionsError)
+                )
+            );
+            return true;
+        };
 
-            fileUploadSubject.next(_fileUpload);
+        fileUpload.isMarkedForRemovalStream
+            .pipe(
+                filter((isMarkedForRemoval) => isMarkedForRemoval),
+                take(1)
+            )
+            .subscribe(() => this._uploadQueue.release(fileUpload.id));
+
+        const stopTransfer = () => {
+            if (transferSubscription) {
+                transferSubscription.unsubscribe();
+            }
+            if (retrySubscription) {
+                retrySubscription.unsubscribe();
+            }
+            this._uploadQueue.release(fileUpload.id);
         };
 
-        this._subscribeTemporarily(
-            fileUpload.executeStream,
-            () => {
-                const xhr = new XMLHttpRequest();
-                const progressStream = fromEvent(xhr.upload, 'progress');
-                const completedStream = fromEvent(xhr, 'load');
-                const xhrErrorStream = fromEvent(xhr, 'error');
-                xhr.withCredentials = fileUpload.requestOptions.withCredentials || false;
-
-                this._subscribeTemporarily(
-                    merge(progressStream, completedStream)
+        const setIdle = () => this._setProgress(fileUploadSubject, {
+            ...fileUploadSubject.getValue().progress,
+            state: ProgressState.Idle,
+            bytesPerSecond: 0,
+            secondsRemaining: null
+        });
+
+        // Queue the transfer, or just go idle if the upload is paused. Resuming a paused upload
+        // isn't a new attempt, so it keeps the upload's progress until the transfer reports its own.
+        const queueTransfer = (isNewAttempt: boolean) => {
+            stopTransfer();
+            if (isNewAttempt) {
+                // The previous attempt's error no longer describes the upload.
+                const _fileUpload = fileUploadSubject.getValue();
+                _fileUpload.attemptCount++;
+                _fileUpload.error = null;
+                _fileUpload.errorMessage = null;
+                hasReplayed = false;
+            }
+            if (fileUpload.paused) {
+                setIdle();
+                return;
+            }
+            const getProgress = (state: ProgressState): IProgress => isNewAttempt
+                ? { percent: 0, state }
+                : { ...fileUploadSubject.getValue().progress, state };
+            this._setProgress(fileUploadSubject, getProgress(ProgressState.Queued));
+
+            // Wait for a free slot before preparing the file and actually sending anything.
+            this._uploadQueue.enqueue(fileUpload.id, () => {
+                const rateMeter = new TransferRateMeter();
+                transferSubscription = this._subscribeTemporarily(
+                    observableFrom(prepare())
                         .pipe(
+                            // Don't send anything for an upload which was stopped while it was prepared.
+                            filter(() => !fileUploadSubject.getValue().cancelled && !fileUpload.isMarkedForRemoval),
+                            // The upload stays queued while the file is prepared, and is in progress once
+                            // the transfer has started.
+                            flatMap(() => merge(
+                                this._createTransfer(fileUpload).pipe(this._timeout(fileUpload)),
+                                defer(() => {
+                                    rateMeter.update(isNewAttempt ? 0 : fileUploadSubject.getValue().progress.bytesLoaded || 0);
+                                    this._setProgress(fileUploadSubject, getProgress(ProgressState.InProgress));
+                                    return EMPTY;
+                                })
+                            )),
                             delay(0),
-                            takeUntil(this._fileUploadsStreamResetSubject.asObservable())
+                            takeUntil(stopStream),
+                            finalize(() => this._uploadQueue.release(fileUpload.id))
                         ),
-                    async (event: ProgressEvent) => {
-                        const _fileUpload = fileUploadSubject.getValue();
-                        const progressPercent = Math.round(100 * event.loaded / event.total);
-                        if (xhr.readyState !== XHRReadyState.DONE && typeof progressPercent === 'number') {
-                            _fileUpload.progress = {
-                                percent: progressPercent,
-                                state: ProgressState.InProgress
-                            };
-                            fileUploadSubject.next(_fileUpload);
-                        } else if (
-                            xhr.readyState === XHRReadyState.DONE
-                            && _fileUpload.progress.state !== ProgressState.Completed
-                        ) {
-                            // The upload is complete.
-                            let responseBody: any;
-                            let responseStatus: number;
-                            try {
-                                responseBody = JSON.parse(xhr.response);
-                            } catch (_error) {
-                                responseBody = xhr.response;
-                            }
-                            _fileUpload.progress = {
-                                percent: 100,
-                                state: ProgressState.Completed
-                            };
-
-                            if (xhr.status && xhr.status >= 200 && xhr.status <= 599) {
-                                responseStatus = xhr.status;
-                            } else {
-                                responseStatus = 500;
-                            }
-
-                            _fileUpload.response = new Response(responseBody, {
-                                status: responseStatus,
-                                statusText: xhr.statusText
-                            });
-                            _fileUpload.responseBody = responseBody;
-                            _fileUpload.responseCode = xhr.status;
-
-                            if (typeof this._fileUploadedCallback === 'function') {
-                                const fileUploadedCallbackResult = this._fileUploadedCallback(_fileUpload);
-                                if (fileUploadedCallbackResult) {
-                                    if (typeof (fileUploadedCallbackResult as Promise<FileUploadType>).then
-                                        === 'function') {
-                                            (fileUploadedCallbackResult as Promise<FileUploadType>)
-                                                .then((fileUploadFromCallback) => {
-                                                    fileUploadSubject.next(fileUploadFromCallback);
-                                                });
-                                    } else {
-                                        fileUploadSubject.next(fileUploadedCallbackResult as FileUploadType);
-                                    }
-                                } else {
-                                    fileUploadSubject.next(_fileUpload);
+                    (event: UploadTransportEvent) => {
+                        if (event.type === UploadTransportEventType.Complete) {
+                            const _fileUpload = fileUploadSubject.getValue();
+                            this._setResponse(_fileUpload, event.response);
+                            if (!this._isSuccess(event.response, _fileUpload)) {
+                                const error = this._createHttpError(_fileUpload, event.response);
+                                if (!replayIfUnauthorized(event.response, error) && !retryIfRetryable(event.response, error)) {
+                                    this._handleTransferError(fileUploadSubject, error);
                                 }
-                            } else {
-                                fileUploadSubject.next(_fileUpload);
+                                return;
+                            }
+                            const checksumError = this._verifyChecksum(_fileUpload, event.response);
+                            if (checksumError) {
+                                this._handleTransferError(fileUploadSubject, checksumError);
+                                return;
                             }
                         }
+                        this._handleTransferEvent(fileUploadSubject, event, rateMeter);
                     },
-                    (errorResponse) => handleError(errorResponse)
+                    (errorResponse) => {
+                        const error = this._toFileUploadError(fileUpload, errorResponse);
+                        if (!retryIfRetryable(null, error)) {
+                            this._handleTransferError(fileUploadSubject, error);
+                        }
+                    }
                 );
+            });
+        };
 
-                this._subscribeTemporarily(xhrErrorStream, (xhrError) => {
-                    let errorMessage: any;
-                    try {
-                        errorMessage = JSON.stringify(xhrError);
-                    } catch (error) {
-                        errorMessage = 'There was an error serializing the error response.';
-                    }
-                    handleError(new Error(errorMessage));
-                });
+        // An upload cancelled before it was set up stays cancelled until it's retried.
+        this._subscribeTemporarily(
+            fileUpload.executeStream.pipe(skip(fileUpload.cancelled ? 1 : 0)),
+            () => queueTransfer(true)
+        );
 
-                xhr.open(request.method, request.url, true);
-                if (fileUpload.requestOptions.headers) {
-                    Object.keys(fileUpload.requestOptions.headers).forEach((key) => {
-                        const value = fileUpload.requestOptions.headers[key];
-                        xhr.setRequestHeader(key, value);
-                    });
+        this._subscribeTemporarily(replaySubject.pipe(takeUntil(stopStream)), () => queueTransfer(false));
+
+        this._subscribeTemporarily(
+            fileUpload.isPausedStream.pipe(
+                distinctUntilChanged(),
+                skip(1),
+                takeUntil(stopStream)
+            ),
+            (isPaused) => {
+                const { state } = fileUploadSubject.getValue().progress;
+                if (isPaused && (state === ProgressState.InProgress || state === ProgressState.Queued)) {
+                    stopTransfer();
+                    setIdle();
+                } else if (!isPaused && state === ProgressState.Idle) {
+                    queueTransfer(false);
                 }
+            }
+        );
 
-                xhr.send(request.body);
+        this._subscribeTemporarily(
+            fileUpload.cancelStream.pipe(takeUntil(stopStream)),
+            () => {
+                stopTransfer();
+                const _fileUpload = fileUploadSubject.getValue();
+                _fileUpload.progress = {
+                    ..._fileUpload.progress,
+                    state: ProgressState.Cancelled,
+                    bytesPerSecond: 0,
+                    secondsRemaining: null
+                };
+                // Like a failure, the error is emitted before the `FileUpload`'s new state.
+                this._errorSubject.next(new UploadCancelledError(`${fileUpload.name} was cancelled.`, fileUpload));
+                fileUploadSubject.next(_fileUpload);
+            }
+        );
 
-                fileUpload.isMarkedForRemovalStream
-                    .pipe(
-                        filter((isMarkedForRemoval) => isMarkedForRemoval),
-                        take(1)
-                    )
-                    .subscribe(() => xhr.abort());
+        return fileUploadSubject.asObservable();
+    }
 
-                this._fileUploadsStreamResetSubject
-                    .pipe(take(1))
-                    .subscribe(() => xhr.abort());
+    private _handleTransferEvent(
+        fileUploadSubject: BehaviorSubject<FileUploadType>,
+        event: UploadTransportEvent,
+        rateMeter: TransferRateMeter
+    ): void {
+        const _fileUpload = fileUploadSubject.getValue();
+        if (event.type === UploadTransportEventType.Progress) {
+            rateMeter.update(event.loaded);
+            this._setProgress(fileUploadSubject, {
+                percent: event.total ? Math.round(100 * event.loaded / event.total) : 0,
+                state: ProgressState.InProgress,
+                bytesLoaded: event.loaded,
+                bytesTotal: event.total,
+                bytesPerSecond: rateMeter.bytesPerSecond,
+                secondsRemaining: rateMeter.getSecondsRemaining(event.total)
             });
+        } else if (_fileUpload.progress.state !== ProgressState.Completed) {
+            // The upload is complete.
+            _fileUpload.progress = {
+                ..._fileUpload.progress,
+                percent: 100,
+                state: ProgressState.Completed,
+                bytesLoaded: _fileUpload.progress.bytesTotal,
+                secondsRemaining: 0
+            };
 
-        return fileUploadSubject.asObservable();
+            if (typeof this._fileUploadedCallback === 'function') {
+                const fileUploadedCallbackResult = this._fileUploadedCallback(_fileUpload);
+                if (fileUploadedCallbackResult) {
+                    if (typeof (fileUploadedCallbackResult as Promise<FileUploadType>).then === 'function') {
+                        (fileUploadedCallbackResult as Promise<FileUploadType>)
+                            .then((fileUploadFromCallback) => {
+                                fileUploadSubject.next(fileUploadFromCallback);
+                            });
+                    } else {
+                        fileUploadSubject.next(fileUploadedCallbackResult as FileUploadType);
+                    }
+                } else {
+                    fileUploadSubject.next(_fileUpload);
+                }
+            } else {
+                fileUploadSubject.next(_fileUpload);
+            }
+        }
+    }
+
+    private _handleTransferError(fileUploadSubject: BehaviorSubject<FileUploadType>, error: FileUploadError): void {
+        const _fileUpload = fileUploadSubject.getValue();
+        _fileUpload.progress = {
+            percent: 100,
+            state: ProgressState.Failed
+        };
+        _fileUpload.error = error;
+        _fileUpload.errorMessage = error.message;
+        this._errorSubject.next(error);
+        fileUploadSubject.next(_fileUpload);
+    }
+
+    private _setResponse(fileUpload: FileUploadType, response: IUploadTransportResponse): void {
+        const { status, statusText, body, headers } = response;
+        let responseStatus: number;
+
+        if (status && status >= 200 && status <= 599) {
+            responseStatus = status;
+        } else {
+            responseStatus = 500;
+        }
+
+        fileUpload.response = new Response(nullBodyStatuses.indexOf(responseStatus) === -1
+            ? this._toResponseBodyInit(body)
+            : null, {
+            status: responseStatus,
+            statusText,
+            headers
+        });
+        fileUpload.responseBody = this._parseResponseBody(fileUpload, response);
+        fileUpload.responseHeaders = headers;
+        fileUpload.responseCode = status;
+    }
+
+    private _parseResponseBody(fileUpload: FileUploadType, response: IUploadTransportResponse): any {
+        const { body, headers } = response;
+        if (typeof this._responseType === 'function') {
+            return this._responseType(response, fileUpload);
+        }
+        switch (this._responseType) {
+            case UploadResponseType.Text:
+                return body;
+            case UploadResponseType.Blob:
+                return body instanceof Blob
+                    ? body
+                    : new Blob([ this._toResponseBodyInit(body) ], { type: headers['content-type'] || '' });
+            default:
+                try {
+                    return JSON.parse(body);
+                } catch (_error) {
+                    return body;
+                }
+        }
+    }
+
+    /** Upload strategies may respond with an object, which `Response` and `Blob` would turn into "[object Object]". */
+    private _toResponseBodyInit(body: any): string | Blob | ArrayBuffer {
+        if (body === null || typeof body === 'undefined') {
+            return null;
+        }
+        if (typeof body === 'string' || body instanceof Blob || body instanceof ArrayBuffer) {
+            return body;
+        }
+        return JSON.stringify(body);
+    }
+
+    private _createHttpError(fileUpload: FileUploadType, response: IUploadTransportResponse): UploadHttpError {
+        const { status, statusText, headers } = response;
+        const message = typeof this._uploadErrorMessage === 'function'
+            ? this._uploadErrorMessage(response, fileUpload)
+            : `${fileUpload.name} failed to upload: the server responded with ${status}${statusText ? ` ${statusText}` : ''}.`;
+        return new UploadHttpError(message, fileUpload, status, statusText, fileUpload.responseBody, headers);
+    }
+
+    /** Make sure errors from the transport or upload strategy are `FileUploadError`s referencing the `FileUpload`. */
+    private _toFileUploadError(fileUpload: FileUploadType, error: any): FileUploadError {
+        if (error instanceof FileUploadError) {
+            if (!error.fileUpload) {
+                error.fileUpload = fileUpload;
+            }
+            return error;
+        }
+        const reason = error && error.message ? `: ${error.message}` : '.';
+        return new UploadNetworkError(`${fileUpload.name} failed to upload${reason}`, fileUpload, error);
+    }
+
+    private _setProgress(fileUploadSubject: BehaviorSubject<FileUploadType>, progress: IProgress): void {
+        const _fileUpload = fileUploadSubject.getValue();
+        _fileUpload.progress = progress;
+        fileUploadSubject.next(_fileUpload);
+    }
+
+    private _createTransfer(fileUpload: FileUploadType): Observable<UploadTransportEvent> {
+        const transport = interceptTransport(this._transport, this._interceptors, fileUpload);
+        if (this._uploadStrategy) {
+            return this._uploadStrategy.upload(fileUpload, transport);
+        }
+        const request = this._uploadFileAsBody
+            ? fileUpload.createRequestFileAsBody()
+            : fileUpload.createRequest();
+        const transfer = transport.send({
+            ...request,
+            withCredentials: fileUpload.requestOptions.withCredentials || false,
+            responseType: this._responseType === UploadResponseType.Blob ? 'blob' : 'text'
+        });
+        const { compression } = fileUpload;
+        if (!compression) {
+            return transfer;
+        }
+        // Report progress in terms of the file before it was compressed.
+        return transfer.pipe(map((event) => event.type === UploadTransportEventType.Progress
+            ? {
+                ...event,
+                loaded: event.total ? Math.round(event.loaded * compression.originalSize / event.total) : 0,
+                total: compression.originalSize
+            }
+            : event));
+    }
+
+    /** Abort the transfer with an `UploadTimeoutError` once the request or inactivity timeout elapses. */
+    private _timeout(fileUpload: FileUploadType): MonoTypeOperatorFunction<UploadTransportEvent> {
+        const requestTimeoutMs = this._requestTimeoutMs;
+        const inactivityTimeoutMs = this._inactivityTimeoutMs;
+        const createError = (type: UploadTimeoutType, timeoutMs: number) => throwError(new UploadTimeoutError(
+            type === UploadTimeoutType.Request
+                ? `${fileUpload.name} took longer than ${timeoutMs}ms to upload.`
+                : `${fileUpload.name} made no progress for ${timeoutMs}ms.`,
+            fileUpload,
+            type,
+            timeoutMs
+        ));
+
+        return (source) => defer(() => {
+            let transferStream = source;
+            if (requestTimeoutMs > 0) {
+                transferStream = transferStream.pipe(
+                    timeoutWith(
+                        new Date(Date.now() + requestTimeoutMs),
+                        createError(UploadTimeoutType.Request, requestTimeoutMs)
+                    )
+                );
+            }
+            if (inactivityTimeoutMs > 0) {
+                transferStream = transferStream.pipe(
+                    timeoutWith(inactivityTimeoutMs, createError(UploadTimeoutType.Inactivity, inactivityTimeoutMs))
+                );
+            }
+            return transferStream;
+        });
     }
 
     private _executeFileUpload(fileUploadToExecute: FileUploadType): Observable<FileUploadType> {
-        if (!this._areRequestOptionsSet) {
+        if (!this._areRequestOptionsSet && !this._uploadStrategy) {
             throw new MissingRequestOptionsError(
                 'Uploading is not allowed until request options are set using `setRequestOptions`'
             );
@@ -798,41 +1796,213 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         fileUploadToExecute.uploadHasStarted = true;
         fileUploadSubject.next(fileUploadToExecute);
 
-        // Construct a request and send it.
+        return this._uploadFile(fileUploadToExecute);
+    }
+
+    /**
+     * Preprocess, compress, encrypt and checksum the file, if needed, then set the request options,
+     * from the factory if there is one.
+     */
+    private async _prepareUpload(fileUpload: FileUploadType, unpreparedFile: File): Promise<void> {
+        if (this._preprocessors.length || this._compressionOptions || this._encryptionOptions || this._checksumOptions) {
+            await this._prepareFile(fileUpload, unpreparedFile);
+        }
+        await this._setRequestOptions(fileUpload);
+    }
+
+    /**
+     * Set the request options, from the factory if there is one, along with the ones describing the
+     * prepared file.
+     */
+    private _setRequestOptions(fileUpload: FileUploadType): Promise<void> {
         if (typeof this._requestOptionsFactory === 'function') {
-            const existingRequestOptions: Partial<IUploadRequestOptions> = this._requestOptions || {};
-            const requestOptionsFactoryReturnValue = this._requestOptionsFactory(fileUploadToExecute);
-            let requestOptionsPromise: Promise<IUploadRequestOptions>;
-            if (
-                !requestOptionsFactoryReturnValue
-                || typeof (requestOptionsFactoryReturnValue as Promise<IUploadRequestOptions>).then
-                    !== 'function'
-            ) {
-                requestOptionsPromise = Promise.resolve(requestOptionsFactoryReturnValue);
-            } else {
-                requestOptionsPromise = requestOptionsFactoryReturnValue as Promise<IUploadRequestOptions>;
-            }
-
-            requestOptionsPromise
-                .then((requestOptions) => {
-                    if (requestOptions) {
-                        fileUploadToExecute.setRequestOptions({
-                            ...requestOptions,
-                            ...existingRequestOptions,
-                            formData: {
-                                ...requestOptions.formData,
-                                ...existingRequestOptions.formData
-                            }
-                        });
-                    }
-                    this._uploadFile(fileUploadToExecute);
-                });
+            return this._setFactoryRequestOptions(fileUpload);
+        }
+        fileUpload.setRequestOptions(this._requestOptions as IUploadRequestOptions);
+        this._setPreparedFileRequestOptions(fileUpload);
+        return Promise.resolve();
+    }
+
+    /**
+     * Replace the `FileUpload`'s file with the result of each preprocessor, in order, then compress
+     * and encrypt it and compute the checksum of the file which will be uploaded.
+     */
+    private async _prepareFile(fileUpload: FileUploadType, unpreparedFile: File): Promise<void> {
+        let file = unpreparedFile;
+        fileUpload.file = file;
+        fileUpload.compression = null;
+        fileUpload.encryption = null;
+        fileUpload.checksum = null;
+        try {
+            for (const preprocessor of this._preprocessors) {
+                file = await preprocessor.process(file, fileUpload);
+            }
+        } catch (error) {
+            throw new FilePreprocessingError(`${fileUpload.name} could not be processed before uploading.`, fileUpload, error);
+        }
+        fileUpload.file = file;
+
+        if (this._shouldCompress(file)) {
+            const { format = CompressionFormat.Gzip, chunkSize } = this._compressionOptions;
+            try {
+                const compressedBlob = await compressBlob(file, format, chunkSize);
+                // Files which don't get any smaller are uploaded as they are.
+                if (compressedBlob.size < file.size) {
+                    fileUpload.compression = { format, originalSize: file.size };
+                    file = new File([ compressedBlob ], file.name, { type: file.type, lastModified: file.lastModified });
+                    fileUpload.file = file;
+                }
+            } catch (error) {
+                // Compression only saves bandwidth, so upload the file as it is.
+            }
+        }
+
+        if (this._encryptionOptions) {
+            const { getKey, chunkSize } = this._encryptionOptions;
+            try {
+                const { key, keyId } = await getKey(fileUpload);
+                const { blob, encryption } = await encryptBlob(file, key, chunkSize);
+                fileUpload.file = new File([ blob ], file.name, { type: blob.type, lastModified: file.lastModified });
+                fileUpload.encryption = { ...encryption, keyId: keyId || null };
+            } catch (error) {
+                throw new FileEncryptionError(`${fileUpload.name} could not be encrypted before uploading.`, fileUpload, error);
+            }
+        }
+
+        if (this._checksumOptions) {
+            const { algorithm, encoding, chunkSize } = this._checksumOptions;
+            try {
+                fileUpload.checksum = await computeChecksum(fileUpload.file, algorithm, encoding, chunkSize);
+            } catch (error) {
+                throw new FileUploadError(`${fileUpload.name} could not be read before uploading.`, fileUpload);
+            }
+        }
+    }
+
+    /**
+     * Whether to compress the file: `Content-Encoding` describes the whole request body, so only
+     * files uploaded as the body in a single request are compressed.
+     */
+    private _shouldCompress(file: File): boolean {
+        if (!this._compressionOptions || !this._uploadFileAsBody || this._uploadStrategy) {
+            return false;
+        }
+        const contentTypes = this._compressionOptions.contentTypes || defaultCompressionContentTypes;
+        return contentTypes.some((rule) => matchesContentTypeRule(file, rule));
+    }
+
+    /**
+     * Send the `Content-Encoding` of a compressed file, and its checksum in the header and/or form
+     * field named by the `checksumOptions`. Both headers describe the whole file, so they aren't
+     * sent with an upload strategy, whose requests each carry a part of the file, or none.
+     */
+    private _setPreparedFileRequestOptions(fileUpload: FileUploadType): void {
+        const requestOptions = fileUpload.requestOptions;
+        // A compressed file which was then encrypted can't be decompressed by the server.
+        if (fileUpload.compression && !fileUpload.encryption && !this._uploadStrategy) {
+            fileUpload.setRequestOptions({
+                ...requestOptions,
+                headers: { ...requestOptions.headers, 'Content-Encoding': fileUpload.compression.format }
+            });
+        }
+        if (!this._checksumOptions || !fileUpload.checksum) {
+            return;
+        }
+        const { header, formField } = this._checksumOptions;
+        const { headers, formData } = fileUpload.requestOptions;
+        fileUpload.setRequestOptions({
+            ...fileUpload.requestOptions,
+            headers: header && !this._uploadStrategy
+                ? { ...headers, [header]: fileUpload.checksum }
+                : headers,
+            formData: formField
+                ? { ...formData as { [key: string]: string }, [formField]: fileUpload.checksum }
+                : formData
+        });
+    }
+
+    /**
+     * Returns a `ChecksumMismatchError` if the response contains a checksum which doesn't match the
+     * `FileUpload`'s, or `null` if it matches or the response doesn't contain one.
+     */
+    private _verifyChecksum(fileUpload: FileUploadType, response: IUploadTransportResponse): ChecksumMismatchError {
+        if (!this._checksumOptions || !this._checksumOptions.responseChecksum || !fileUpload.checksum) {
+            return null;
+        }
+        const { responseChecksum, encoding } = this._checksumOptions;
+        const echoedChecksum = typeof responseChecksum === 'function'
+            ? responseChecksum(response, fileUpload)
+            : (response.headers || {})[responseChecksum.toLowerCase()];
+        if (!echoedChecksum) {
+            return null;
+        }
+        // ETags are quoted, and hex digits may be in either case.
+        let actualChecksum = echoedChecksum.trim().replace(/^"(.*)"$/, '$1');
+        let expectedChecksum = fileUpload.checksum;
+        if (encoding !== ChecksumEncoding.Base64) {
+            actualChecksum = actualChecksum.toLowerCase();
+            expectedChecksum = expectedChecksum.toLowerCase();
+        }
+        if (actualChecksum === expectedChecksum) {
+            return null;
+        }
+        return new ChecksumMismatchError(
+            `${fileUpload.name} was corrupted while uploading: the checksum of the uploaded file doesn't match.`,
+            fileUpload,
+            expectedChecksum,
+            actualChecksum
+        );
+    }
+
+    /** Set the request options returned by the factory, overridden by any set with `setRequestOptions`. */
+    private _setFactoryRequestOptions(fileUpload: FileUploadType): Promise<void> {
+        const existingRequestOptions: Partial<IUploadRequestOptions> = this._requestOptions || {};
+        const requestOptionsFactoryReturnValue = this._requestOptionsFactory(fileUpload);
+        let requestOptionsPromise: Promise<IUploadRequestOptions>;
+        if (
+            !requestOptionsFactoryReturnValue
+            || typeof (requestOptionsFactoryReturnValue as Promise<IUploadRequestOptions>).then
+                !== 'function'
+        ) {
+            requestOptionsPromise = Promise.resolve(requestOptionsFactoryReturnValue);
         } else {
-            fileUploadToExecute.setRequestOptions(this._requestOptions as IUploadRequestOptions);
-            this._uploadFile(fileUploadToExecute);
+            requestOptionsPromise = requestOptionsFactoryReturnValue as Promise<IUploadRequestOptions>;
         }
 
-        return fileUploadSubject.asObservable();
+        return requestOptionsPromise
+            .then((requestOptions) => {
+                if (requestOptions) {
+                    fileUpload.setRequestOptions({
+                        ...requestOptions,
+                        ...existingRequestOptions,
+                        formData: {
+                            ...requestOptions.formData,
+                            ...existingRequestOptions.formData
+                        }
+                    });
+                }
+                this._setPreparedFileRequestOptions(fileUpload);
+            });
+    }
+
+    /**
+     * Call `onUnauthorized`, or wait for the call already in progress, resolving with whether the
+     * credentials were refreshed.
+     */
+    private _refreshCredentials(response: IUploadTransportResponse, fileUpload: FileUploadType): Promise<boolean> {
+        if (!this._credentialsRefresh) {
+            this._credentialsRefresh = Promise.resolve()
+                .then(() => this._onUnauthorized(response, fileUpload))
+                .then((result) => result !== false, () => false)
+                .then((isRefreshed) => {
+                    this._credentialsRefresh = null;
+                    if (isRefreshed) {
+                        this._credentialsGeneration++;
+                    }
+                    return isRefreshed;
+                });
+        }
+        return this._credentialsRefresh;
     }
 
     // Event handlers.
@@ -892,6 +2062,35 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         }
     }
 
+    /**
+     * Returns the reason the newly-added uploads may not be added, if the total size of their files,
+     * or of every file in the `Uploader`, is over a limit. Rejected uploads don't count.
+     */
+    private _checkTotalSizeLimits(
+        newFileUploads: FileUploadType[],
+        previousFileUploads: FileUploadType[]
+    ): UploaderError {
+        const getBytes = (fileUploads: FileUploadType[]) => fileUploads
+            .filter((fileUpload) => !fileUpload.rejected)
+            .reduce((total, fileUpload) => total + fileUpload.file.size, 0);
+        const files = newFileUploads.map((fileUpload) => fileUpload.file);
+        const bytes = getBytes(newFileUploads);
+        if (this._batchSizeLimitBytes && bytes > this._batchSizeLimitBytes) {
+            const errorMessage = this._batchSizeLimitErrorMessage
+                ? this._batchSizeLimitErrorMessage(files)
+                : `The selected files are larger, in total, than the limit of ${formatBytes(this._batchSizeLimitBytes)}. Please select fewer files.`;
+            return new BatchSizeLimitExceededError(errorMessage, files, bytes, this._batchSizeLimitBytes);
+        }
+        const totalBytes = bytes + getBytes(previousFileUploads);
+        if (this._totalSizeLimitBytes && totalBytes > this._totalSizeLimitBytes) {
+            const errorMessage = this._totalSizeLimitErrorMessage
+                ? this._totalSizeLimitErrorMessage(files)
+                : `The selected files would exceed the limit of ${formatBytes(this._totalSizeLimitBytes)} for all files. Please remove some files first.`;
+            return new TotalSizeLimitExceededError(errorMessage, files, totalBytes, this._totalSizeLimitBytes);
+        }
+        return null;
+    }
+
     private _exceedsFileCountLimit(fileUploads: FileUploadType[]): boolean {
         const fileCountLimit = this._getFileCountLimit();
 
@@ -906,6 +2105,44 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         return false;
     }
 
+    /**
+     * Find the newly-added uploads of files the `Uploader` already has, and mark either them or the
+     * existing uploads for removal according to the `duplicateFilePolicy`.
+     */
+    private _markDuplicateFileUploads(
+        previousFileUploads: FileUploadType[],
+        currentFileUploads: FileUploadType[]
+    ): void {
+        if (!this._duplicateFilePolicy) {
+            return;
+        }
+        const { action = DuplicateFileAction.Reject } = this._duplicateFilePolicy;
+        const keptFileUploads = previousFileUploads.filter((fileUpload) => !fileUpload.isMarkedForRemoval);
+        currentFileUploads
+            .filter((currentFileUpload) => !currentFileUpload.isMarkedForRemoval
+                && !keptFileUploads.find((fileUpload) => fileUpload.id === currentFileUpload.id))
+            .forEach((newFileUpload) => {
+                const key = this._duplicateKeys.get(newFileUpload.id);
+                const existingFileUpload = key
+                    && keptFileUploads.find((fileUpload) => this._duplicateKeys.get(fileUpload.id) === key);
+                if (!existingFileUpload) {
+                    keptFileUploads.push(newFileUpload);
+                } else if (action === DuplicateFileAction.Replace) {
+                    existingFileUpload.markForRemoval();
+                    keptFileUploads.splice(keptFileUploads.indexOf(existingFileUpload), 1, newFileUpload);
+                } else {
+                    newFileUpload.markForRemoval();
+                    if (action === DuplicateFileAction.Reject) {
+                        this._errorSubject.next(new DuplicateFileError(
+                            `${newFileUpload.name} has already been added.`,
+                            newFileUpload,
+                            existingFileUpload
+                        ));
+                    }
+                }
+            });
+    }
+
     private _mergeIsMarkedForRemovalStreams(): OperatorFunction<FileUploadType[], FileUploadType[]> {
         return flatMap<FileUploadType[], Observable<FileUploadType[]>>((fileUploads) => merge(
             ...fileUploads.map((fileUpload) =>
@@ -925,6 +2162,8 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
         //     event fires. So we might get `[fileUpload1]`, then `[fileUpload1, fileUpload2]`,
         //     etc. But, since each `FileUpload` has a unique `id`, we can de-dupe--that
         //     happens here.
+        //   - If a newly-added `FileUpload` is a duplicate of one we already have, mark one
+        //     of them for removal according to the duplicate file policy.
         //   - If the number of `FileUpload`s exceeds the file count limit, mark all
         //     newly-added ones for removal (already-executed uploads are left alone).
         //   - If the new accumulated array exceeds the file count limit, invoke the callback
@@ -935,12 +2174,17 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
             } else {
                 _currentFileUploads.forEach((fileUpload) => {
                     if (fileUpload.isMarkedForRemoval && this._fileUploadSubjectsMap.has(fileUpload.id)) {
+                        fileUpload.revokePreviews();
                         this._fileUploadSubjectsMap.get(fileUpload.id).unsubscribe();
                         this._fileUploadSubjectsMap.delete(fileUpload.id);
+                        this._duplicateKeys.delete(fileUpload.id);
                     }
                 });
             }
 
+            // Apply the duplicate file policy before the limits, so that dropped duplicates don't count.
+            this._markDuplicateFileUploads(_previousAccFileUploads, _currentFileUploads);
+
             const previousAccFileUploads = _previousAccFileUploads
                 .filter((fileUpload) => !fileUpload.isMarkedForRemoval);
             const currentFileUploads = _currentFileUploads
@@ -966,6 +2210,18 @@ export class Uploader<FileUploadType extends FileUpload = FileUpload> {
                 return previousAccFileUploads;
             }
 
+            // Likewise if their total size exceeds a limit.
+            const sizeLimitError = newFileUploads.length
+                ? this._checkTotalSizeLimits(newFileUploads, previousAccFileUploads)
+                : null;
+            if (sizeLimitError) {
+                newFileUploads.forEach((fileUpload) => {
+                    fileUpload.markForRemoval();
+                });
+                this._errorSubject.next(sizeLimitError);
+                return previousAccFileUploads;
+            }
+
             return accFileUploads;
         }, []);
     }
@@ -0,0 +1,133 @@
+import { toArray } from 'rxjs/operators';
+import { FileUpload } from '../models/file-upload';
+import { FileUploadError, MultipartUploadAbortError } from '../models/uploader-error';
+import { IUploadTransportRequest, UploadTransportEventType } from '../models/upload-transport';
+import { InMemoryUploadTransport } from '../transports/in-memory-upload-transport';
+import { MultipartUploadStrategy } from './multipart-upload-strategy';
+
+describe('MultipartUploadStrategy', () => {
+    const createStrategy = () => jasmine.createSpyObj('hooks', {
+        initiate: Promise.resolve({ uploadId: 'upload-1' }),
+        presignPart: Promise.resolve('https://bucket.example.com/part'),
+        complete: Promise.resolve({ location: 'https://bucket.example.com/test-upload.txt' }),
+        abort: Promise.resolve()
+    });
+    const respondWithEtag = () => ({ status: 200, headers: { etag: '"etag"' } });
+
+    it('should upload every part and complete with their ETags', (done) => {
+        const hooks = createStrategy();
+        const transport = new InMemoryUploadTransport({
+            respond: (request: IUploadTransportRequest) => ({
+                status: 200,
+                headers: { etag: `"${(request.body as Blob).size}"` }
+            })
+        });
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+
+        new MultipartUploadStrategy({ ...hooks, partSize: 4 })
+            .upload(fileUpload, transport)
+            .pipe(toArray())
+            .subscribe((events) => {
+                const completeEvent = events[events.length - 1];
+                expect(transport.requests.length).toBe(3);
+                expect(hooks.presignPart).toHaveBeenCalledTimes(3);
+                expect(hooks.complete).toHaveBeenCalledWith(fileUpload, { uploadId: 'upload-1' }, [
+                    { partNumber: 1, etag: '"4"' },
+                    { partNumber: 2, etag: '"4"' },
+                    { partNumber: 3, etag: '"2"' }
+                ]);
+                expect(completeEvent.type).toBe(UploadTransportEventType.Complete);
+                done();
+            });
+    });
+
+    it('should abort the multipart upload when the file upload is removed', (done) => {
+        const hooks = createStrategy();
+        const transport = new InMemoryUploadTransport({ respond: respondWithEtag, latencyMs: 10 });
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+
+        new MultipartUploadStrategy({ ...hooks, partSize: 4 })
+            .upload(fileUpload, transport)
+            .subscribe(() => {
+                if (!hooks.abort.calls.count()) {
+                    fileUpload.remove();
+                    expect(hooks.abort).toHaveBeenCalledWith(fileUpload, { uploadId: 'upload-1' });
+                    done();
+                }
+            });
+    });
+
+    it('should emit a MultipartUploadAbortError when aborting fails', (done) => {
+        const hooks = createStrategy();
+        hooks.abort.and.callFake(() => Promise.reject(new Error('Network error')));
+        const transport = new InMemoryUploadTransport({ respond: respondWithEtag, latencyMs: 10 });
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+        const strategy = new MultipartUploadStrategy({ ...hooks, partSize: 4 });
+
+        strategy.errorStream.subscribe((error) => {
+            expect(error instanceof MultipartUploadAbortError).toBe(true);
+            expect((error as MultipartUploadAbortError).fileUpload).toBe(fileUpload);
+            expect((error as MultipartUploadAbortError).cause.message).toBe('Network error');
+            done();
+        });
+        const subscription = strategy.upload(fileUpload, transport).subscribe(() => {
+            subscription.unsubscribe();
+            fileUpload.remove();
+        });
+    });
+
+    it('should fail with a FileUploadError when a part\'s response has no ETag', (done) => {
+        const hooks = createStrategy();
+        const transport = new InMemoryUploadTransport({ respond: () => ({ status: 200 }) });
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+
+        new MultipartUploadStrategy({ ...hooks, partSize: 4 })
+            .upload(fileUpload, transport)
+            .subscribe({
+                error: (error) => {
+                    expect(error instanceof FileUploadError).toBe(true);
+                    expect(error.message).toContain('ETag');
+                    expect(hooks.complete).not.toHaveBeenCalled();
+                    done();
+                }
+            });
+    });
+
+    it('should fail with a FileUploadError when the multipart upload can\'t be completed', (done) => {
+        const hooks = createStrategy();
+        hooks.complete.and.callFake(() => Promise.reject(new Error('Access denied')));
+        const transport = new InMemoryUploadTransport({ respond: respondWithEtag });
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+
+        new MultipartUploadStrategy({ ...hooks, partSize: 4 })
+            .upload(fileUpload, transport)
+            .subscribe({
+                error: (error) => {
+                    expect(error instanceof FileUploadError).toBe(true);
+                    expect(error.fileUpload).toBe(fileUpload);
+                    expect(error.message).toContain('couldn\'t be completed: Access denied');
+                    expect(transport.requests.length).toBe(3);
+                    done();
+                }
+            });
+    });
+
+    it('should abort a multipart upload which was initiated after the file upload was removed', (done) => {
+        const hooks = createStrategy();
+        let resolveInitiate: (session: { uploadId: string }) => void;
+        hooks.initiate.and.returnValue(new Promise((resolve) => resolveInitiate = resolve));
+        hooks.abort.and.callFake(() => {
+            expect(hooks.presignPart).not.toHaveBeenCalled();
+            done();
+            return Promise.resolve();
+        });
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+
+        const subscription = new MultipartUploadStrategy({ ...hooks, partSize: 4 })
+            .upload(fileUpload, new InMemoryUploadTransport())
+            .subscribe();
+        subscription.unsubscribe();
+        fileUpload.remove();
+        resolveInitiate({ uploadId: 'upload-1' });
+    });
+});
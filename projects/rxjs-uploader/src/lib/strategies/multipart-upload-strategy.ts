@@ -0,0 +1,233 @@
+import {
+    concat,
+    defer,
+    merge,
+    Observable,
+    of as observableOf,
+    range,
+    Subject,
+    throwError
+} from 'rxjs';
+import { catchError, filter, map, mergeMap, take } from 'rxjs/operators';
+import { FileUpload } from '../models/file-upload';
+import { HttpMethod } from '../models/http-method';
+import { IUploadStrategy } from '../models/upload-strategy';
+import {
+    FileUploadError,
+    MultipartUploadAbortError,
+    UploadCancelledError,
+    UploaderError
+} from '../models/uploader-error';
+import {
+    IUploadTransport,
+    IUploadTransportCompleteEvent,
+    UploadTransportEvent,
+    UploadTransportEventType
+} from '../models/upload-transport';
+
+const DEFAULT_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_MAX_CONCURRENT_PARTS = 4;
+const successCode = /^2/;
+
+/** Identifies a multipart upload once it has been initiated (e.g. S3's `UploadId` and `Key`). */
+export interface IMultipartUploadSession {
+    uploadId: string;
+    [key: string]: any;
+}
+
+export interface IMultipartUploadPart {
+    partNumber: number;
+    etag: string;
+}
+
+export interface IPresignedPartRequest {
+    url: string;
+    headers?: { [key: string]: string };
+}
+
+export interface IMultipartUploadStrategyOptions {
+    /** The size in bytes of each part, except the last one. Defaults to 5MiB, S3's minimum. */
+    partSize?: number;
+    /** The maximum number of parts uploaded at the same time. Defaults to `4`. */
+    maxConcurrentParts?: number;
+    /** Initiates the multipart upload (e.g. by calling your API, which calls `CreateMultipartUpload`). */
+    initiate: (fileUpload: FileUpload) => Promise<IMultipartUploadSession>;
+    /** Returns the presigned URL (and optionally headers) to which the part is `PUT`. */
+    presignPart: (
+        fileUpload: FileUpload,
+        session: IMultipartUploadSession,
+        partNumber: number
+    ) => Promise<string | IPresignedPartRequest>;
+    /**
+     * Completes the multipart upload once every part has been uploaded. The value it resolves
+     * becomes the `FileUpload`'s response body. If it rejects, the upload fails with a
+     * `FileUploadError`, and retrying it only calls `complete` again.
+     */
+    complete: (
+        fileUpload: FileUpload,
+        session: IMultipartUploadSession,
+        parts: IMultipartUploadPart[]
+    ) => Promise<any>;
+    /** Aborts the multipart upload, called when an unfinished `FileUpload` is cancelled or removed. */
+    abort?: (fileUpload: FileUpload, session: IMultipartUploadSession) => Promise<void>;
+}
+
+interface IMultipartUploadState {
+    session: IMultipartUploadSession;
+    etagsMap: Map<number, string>;
+}
+
+/** Thrown internally to stop uploading the remaining parts when one of them gets an error response. */
+class PartFailure {
+    constructor(public event: IUploadTransportCompleteEvent) { }
+}
+
+/**
+ * Uploads each file directly to S3-compatible storage using a multipart upload: the upload is
+ * initiated, each part is `PUT` to a presigned URL (several at a time), and the upload is completed
+ * with the parts' ETags. Note that the storage's CORS configuration must expose the `ETag` header.
+ * When an upload is retried, parts which were already uploaded are skipped.
+ */
+export class MultipartUploadStrategy implements IUploadStrategy {
+    private _uploadStatesMap = new Map<Symbol, IMultipartUploadState>();
+    private _errorSubject = new Subject<UploaderError>();
+
+    /** Emits a `MultipartUploadAbortError` when `abort` rejects. `Uploader` re-emits it on its `errorStream`. */
+    public errorStream = this._errorSubject.asObservable();
+
+    constructor(private _options: IMultipartUploadStrategyOptions) { }
+
+    public upload(fileUpload: FileUpload, transport: IUploadTransport): Observable<UploadTransportEvent> {
+        return defer(() => this._getUploadState(fileUpload)).pipe(
+            mergeMap((state) => this._uploadParts(fileUpload, transport, state)),
+            catchError((error) => error instanceof PartFailure
+                ? observableOf(error.event)
+                : throwError(error))
+        );
+    }
+
+    private async _getUploadState(fileUpload: FileUpload): Promise<IMultipartUploadState> {
+        if (this._uploadStatesMap.has(fileUpload.id)) {
+            return this._uploadStatesMap.get(fileUpload.id);
+        }
+        const state: IMultipartUploadState = {
+            session: await this._options.initiate(fileUpload),
+            etagsMap: new Map<number, string>()
+        };
+        if (fileUpload.cancelled || fileUpload.isMarkedForRemoval) {
+            // It was stopped while the upload was being initiated, so nothing would ever complete or abort it.
+            this._abort(fileUpload, state.session);
+            throw new UploadCancelledError(`${fileUpload.name} was cancelled.`, fileUpload);
+        }
+        this._uploadStatesMap.set(fileUpload.id, state);
+
+        merge(
+            fileUpload.isMarkedForRemovalStream.pipe(filter((isMarkedForRemoval) => isMarkedForRemoval)),
+            fileUpload.cancelStream
+        )
+            .pipe(take(1))
+            .subscribe(() => {
+                if (this._uploadStatesMap.get(fileUpload.id) === state) {
+                    this._uploadStatesMap.delete(fileUpload.id);
+                    this._abort(fileUpload, state.session);
+                }
+            });
+
+        return state;
+    }
+
+    private _abort(fileUpload: FileUpload, session: IMultipartUploadSession): void {
+        if (typeof this._options.abort !== 'function') {
+            return;
+        }
+        new Promise<void>((resolve) => resolve(this._options.abort(fileUpload, session)))
+            .catch((error) => this._errorSubject.next(new MultipartUploadAbortError(
+                `The multipart upload of ${fileUpload.name} couldn't be aborted, so its parts may still be stored.`,
+                fileUpload,
+                error
+            )));
+    }
+
+    private _uploadParts(
+        fileUpload: FileUpload,
+        transport: IUploadTransport,
+        state: IMultipartUploadState
+    ): Observable<UploadTransportEvent> {
+        const { file } = fileUpload;
+        const partSize = this._options.partSize || DEFAULT_PART_SIZE;
+        const partCount = Math.max(1, Math.ceil(file.size / partSize));
+        const loadedBytesMap = new Map<number, number>();
+        const getPart = (partNumber: number) => file.slice((partNumber - 1) * partSize, partNumber * partSize);
+        const getLoadedBytes = () => {
+            let loaded = 0;
+            for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+                loaded += state.etagsMap.has(partNumber)
+                    ? getPart(partNumber).size
+                    : loadedBytesMap.get(partNumber) || 0;
+            }
+            return loaded;
+        };
+
+        const uploadPart = (partNumber: number): Observable<UploadTransportEvent> => defer(() =>
+            this._options.presignPart(fileUpload, state.session, partNumber)
+        ).pipe(
+            mergeMap((presignedRequest) => {
+                const { url, headers } = typeof presignedRequest === 'string'
+                    ? { url: presignedRequest, headers: undefined }
+                    : presignedRequest;
+                return transport.send({ method: HttpMethod.Put, url, headers, body: getPart(partNumber) });
+            }),
+            map((event): UploadTransportEvent => {
+                if (event.type === UploadTransportEventType.Progress) {
+                    loadedBytesMap.set(partNumber, event.loaded);
+                } else if (successCode.test(`${event.response.status}`)) {
+                    const etag = event.response.headers['etag'];
+                    if (!etag) {
+                        throw new FileUploadError(
+                            `Part ${partNumber} of ${fileUpload.name} was uploaded, but its response has no ETag header. `
+                                + 'Make sure the storage\'s CORS configuration exposes the `ETag` header.',
+                            fileUpload
+                        );
+                    }
+                    state.etagsMap.set(partNumber, etag);
+                } else {
+                    throw new PartFailure(event);
+                }
+                return {
+                    type: UploadTransportEventType.Progress,
+                    loaded: getLoadedBytes(),
+                    total: file.size
+                };
+            })
+        );
+
+        const progressStream = range(1, partCount).pipe(
+            filter((partNumber) => !state.etagsMap.has(partNumber)),
+            mergeMap(uploadPart, this._options.maxConcurrentParts || DEFAULT_MAX_CONCURRENT_PARTS)
+        );
+
+        const completeStream = defer(() => {
+            const parts: IMultipartUploadPart[] = [];
+            state.etagsMap.forEach((etag, partNumber) => parts.push({ partNumber, etag }));
+            parts.sort((a, b) => a.partNumber - b.partNumber);
+            return this._options.complete(fileUpload, state.session, parts);
+        }).pipe(
+            map((body): UploadTransportEvent => {
+                this._uploadStatesMap.delete(fileUpload.id);
+                return {
+                    type: UploadTransportEventType.Complete,
+                    response: { status: 200, statusText: 'OK', body, headers: {} }
+                };
+            }),
+            catchError((error) => {
+                const reason = error && error.message ? `: ${error.message}` : '.';
+                return throwError(new FileUploadError(
+                    `Every part of ${fileUpload.name} was uploaded, but the multipart upload couldn't be completed${reason}`,
+                    fileUpload
+                ));
+            })
+        );
+
+        return concat(progressStream, completeStream);
+    }
+}
@@ -0,0 +1,66 @@
+import { toArray } from 'rxjs/operators';
+import { FileUpload } from '../models/file-upload';
+import { HttpMethod } from '../models/http-method';
+import { IUploadTransportRequest, UploadTransportEventType } from '../models/upload-transport';
+import { InMemoryUploadTransport } from '../transports/in-memory-upload-transport';
+import { TusUploadStrategy } from './tus-upload-strategy';
+
+describe('TusUploadStrategy', () => {
+    const createTusServer = () => {
+        let storedBytes = 0;
+        return new InMemoryUploadTransport({
+            respond: (request: IUploadTransportRequest) => {
+                switch (request.method) {
+                    case HttpMethod.Post:
+                        return { status: 201, headers: { location: '/files/1' } };
+                    case HttpMethod.Head:
+                        return { status: 200, headers: { 'upload-offset': `${storedBytes}` } };
+                    default:
+                        storedBytes = parseInt(request.headers['Upload-Offset'], 10) + (request.body as Blob).size;
+                        return { status: 204, headers: { 'upload-offset': `${storedBytes}` } };
+                }
+            }
+        });
+    };
+
+    it('should create the upload and send the file in chunks', (done) => {
+        const transport = createTusServer();
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+        fileUpload.setRequestOptions({ url: 'https://www.example.com/files' });
+
+        new TusUploadStrategy({ chunkSize: 4 })
+            .upload(fileUpload, transport)
+            .pipe(toArray())
+            .subscribe((events) => {
+                expect(transport.requests.map((request) => request.method))
+                    .toEqual([HttpMethod.Post, HttpMethod.Patch, HttpMethod.Patch, HttpMethod.Patch]);
+                expect(transport.requests[0].headers['Upload-Length']).toBe('10');
+                expect(transport.requests[1].url).toBe('https://www.example.com/files/1');
+                expect(transport.requests[3].headers['Upload-Offset']).toBe('8');
+                expect(events[events.length - 1].type).toBe(UploadTransportEventType.Complete);
+                done();
+            });
+    });
+
+    it('should resume from the offset reported by the server', (done) => {
+        const transport = createTusServer();
+        const strategy = new TusUploadStrategy({ chunkSize: 4 });
+        const fileUpload = new FileUpload(new File(['0123456789'], 'test-upload.txt'));
+        fileUpload.setRequestOptions({ url: 'https://www.example.com/files' });
+
+        // Abort the first attempt after the first chunk has been stored.
+        const subscription = strategy.upload(fileUpload, transport).subscribe((event) => {
+            if (event.type === UploadTransportEventType.Progress && event.loaded > 4) {
+                subscription.unsubscribe();
+                strategy.upload(fileUpload, transport)
+                    .pipe(toArray())
+                    .subscribe(() => {
+                        const retriedRequests = transport.requests.slice(3);
+                        expect(retriedRequests[0].method).toBe(HttpMethod.Head);
+                        expect(retriedRequests[1].headers['Upload-Offset']).toBe('4');
+                        done();
+                    });
+            }
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import { Observable, of as observableOf } from 'rxjs';
+import { concatMap, filter } from 'rxjs/operators';
+import { FileUpload } from '../models/file-upload';
+import { HttpMethod } from '../models/http-method';
+import { IUploadStrategy } from '../models/upload-strategy';
+import {
+    IUploadTransport,
+    IUploadTransportCompleteEvent,
+    IUploadTransportRequest,
+    UploadTransportEvent,
+    UploadTransportEventType
+} from '../models/upload-transport';
+
+const TUS_VERSION = '1.0.0';
+const DEFAULT_CHUNK_SIZE = 5 * 1000 * 1000;
+const successCode = /^2/;
+
+export interface ITusUploadStrategyOptions {
+    /** The size in bytes of each `PATCH` request body. Defaults to 5MB. */
+    chunkSize?: number;
+    /**
+     * Returns the key-value pairs sent in the `Upload-Metadata` header when an upload is created.
+     * Defaults to the file's `filename` and `filetype`.
+     */
+    metadata?: (fileUpload: FileUpload) => { [key: string]: string };
+}
+
+/**
+ * Uploads files using the tus resumable upload protocol, version 1.0.
+ * The upload is created by sending a `POST` to the request options' `url`, then the file is sent
+ * in chunks using `PATCH` requests. When an upload is retried, the strategy asks the server how
+ * many bytes it already has (using `HEAD`) and resumes from there.
+ * @see https://tus.io/protocols/resumable-upload.html
+ */
+export class TusUploadStrategy implements IUploadStrategy {
+    private _uploadUrlsMap = new Map<Symbol, string>();
+
+    constructor(private _options: ITusUploadStrategyOptions = {}) { }
+
+    public upload(fileUpload: FileUpload, transport: IUploadTransport): Observable<UploadTransportEvent> {
+        const uploadUrl = this._uploadUrlsMap.get(fileUpload.id);
+        const offsetStream = uploadUrl
+            ? this._fetchOffset(fileUpload, transport, uploadUrl)
+            : this._createUpload(fileUpload, transport);
+
+        return offsetStream.pipe(
+            concatMap((result) => typeof result === 'number'
+                ? this._uploadChunks(fileUpload, transport, result)
+                : observableOf(result))
+        );
+    }
+
+    /** Returns the URL of the upload created on the server for the `FileUpload`, if any. */
+    public getUploadUrl(fileUpload: FileUpload): string {
+        return this._uploadUrlsMap.get(fileUpload.id);
+    }
+
+    // `_createUpload` and `_fetchOffset` emit either the offset from which to continue uploading,
+    // or the complete event which ends the upload.
+    private _createUpload(
+        fileUpload: FileUpload,
+        transport: IUploadTransport
+    ): Observable<number | IUploadTransportCompleteEvent> {
+        const { url } = fileUpload.requestOptions;
+        return this._send(transport, fileUpload, {
+            method: HttpMethod.Post,
+            url,
+            headers: {
+                'Upload-Length': `${fileUpload.file.size}`,
+                'Upload-Metadata': this._encodeMetadata(fileUpload)
+            }
+        }).pipe(
+            concatMap((event) => {
+                const { status, headers } = event.response;
+                if (!successCode.test(`${status}`) || !headers['location']) {
+                    return observableOf(event);
+                }
+                this._uploadUrlsMap.set(fileUpload.id, resolveUrl(headers['location'], url));
+                return observableOf(fileUpload.file.size === 0 ? event : 0);
+            })
+        );
+    }
+
+    private _fetchOffset(
+        fileUpload: FileUpload,
+        transport: IUploadTransport,
+        uploadUrl: string
+    ): Observable<number | IUploadTransportCompleteEvent> {
+        return this._send(transport, fileUpload, {
+            method: HttpMethod.Head,
+            url: uploadUrl
+        }).pipe(
+            concatMap((event) => {
+                const { status, headers } = event.response;
+                const offset = parseInt(headers['upload-offset'], 10);
+                // The server no longer knows about the upload, so start over.
+                if (status === 404 || status === 410) {
+                    this._uploadUrlsMap.delete(fileUpload.id);
+                    return this._createUpload(fileUpload, transport);
+                }
+                if (!successCode.test(`${status}`) || isNaN(offset)) {
+                    return observableOf(event);
+                }
+                if (offset >= fileUpload.file.size) {
+                    this._uploadUrlsMap.delete(fileUpload.id);
+                    return observableOf(event);
+                }
+                return observableOf(offset);
+            })
+        );
+    }
+
+    private _uploadChunks(
+        fileUpload: FileUpload,
+        transport: IUploadTransport,
+        offset: number
+    ): Observable<UploadTransportEvent> {
+        const { file } = fileUpload;
+        const chunk = file.slice(offset, offset + (this._options.chunkSize || DEFAULT_CHUNK_SIZE));
+
+        return transport.send(this._createRequest(fileUpload, {
+            method: HttpMethod.Patch,
+            url: this._uploadUrlsMap.get(fileUpload.id),
+            body: chunk,
+            headers: {
+                'Upload-Offset': `${offset}`,
+                'Content-Type': 'application/offset+octet-stream'
+            }
+        })).pipe(
+            concatMap((event) => {
+                if (event.type === UploadTransportEventType.Progress) {
+                    return observableOf<UploadTransportEvent>({
+                        type: UploadTransportEventType.Progress,
+                        loaded: offset + event.loaded,
+                        total: file.size
+                    });
+                }
+                const { status, headers } = event.response;
+                if (!successCode.test(`${status}`)) {
+                    return observableOf(event);
+                }
+                const serverOffset = parseInt(headers['upload-offset'], 10);
+                const nextOffset = isNaN(serverOffset) ? offset + chunk.size : serverOffset;
+                if (nextOffset >= file.size) {
+                    this._uploadUrlsMap.delete(fileUpload.id);
+                    return observableOf(event);
+                }
+                return this._uploadChunks(fileUpload, transport, nextOffset);
+            })
+        );
+    }
+
+    private _send(
+        transport: IUploadTransport,
+        fileUpload: FileUpload,
+        request: IUploadTransportRequest
+    ): Observable<IUploadTransportCompleteEvent> {
+        return transport.send(this._createRequest(fileUpload, request))
+            .pipe(filter((event): event is IUploadTransportCompleteEvent =>
+                event.type === UploadTransportEventType.Complete));
+    }
+
+    private _createRequest(fileUpload: FileUpload, request: IUploadTransportRequest): IUploadTransportRequest {
+        const { headers, withCredentials } = fileUpload.requestOptions;
+        return {
+            ...request,
+            headers: {
+                ...headers,
+                ...request.headers,
+                'Tus-Resumable': TUS_VERSION
+            },
+            withCredentials: withCredentials || false
+        };
+    }
+
+    private _encodeMetadata(fileUpload: FileUpload): string {
+        const metadata = typeof this._options.metadata === 'function'
+            ? this._options.metadata(fileUpload)
+            : { filename: fileUpload.name, filetype: fileUpload.file.type };
+        return Object.keys(metadata)
+            .map((key) => metadata[key] ? `${key} ${encodeBase64(metadata[key])}` : key)
+            .join(',');
+    }
+}
+
+function encodeBase64(value: string): string {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+    return new URL(url, new URL(baseUrl, document.baseURI).href).href;
+}
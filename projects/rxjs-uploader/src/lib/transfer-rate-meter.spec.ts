@@ -0,0 +1,29 @@
+import { TransferRateMeter } from './transfer-rate-meter';
+
+describe('TransferRateMeter', () => {
+    it('should average the throughput over the window', () => {
+        const rateMeter = new TransferRateMeter(2000);
+        expect(rateMeter.bytesPerSecond).toBe(0);
+        expect(rateMeter.getSecondsRemaining(1000)).toBeNull();
+
+        rateMeter.update(0, 0);
+        rateMeter.update(100, 1000);
+        rateMeter.update(400, 2000);
+        expect(rateMeter.bytesPerSecond).toBe(200);
+
+        // The first sample falls out of the window.
+        rateMeter.update(500, 3000);
+        expect(rateMeter.bytesPerSecond).toBe(200);
+        expect(rateMeter.getSecondsRemaining(1000)).toBe(2.5);
+    });
+
+    it('should start over when the loaded bytes go backwards', () => {
+        const rateMeter = new TransferRateMeter();
+        rateMeter.update(0, 0);
+        rateMeter.update(500, 1000);
+        rateMeter.update(0, 1500);
+        expect(rateMeter.bytesPerSecond).toBe(0);
+        rateMeter.update(100, 2000);
+        expect(rateMeter.bytesPerSecond).toBe(200);
+    });
+});
@@ -0,0 +1,51 @@
+interface ITransferSample {
+    time: number;
+    loaded: number;
+}
+
+const DEFAULT_WINDOW_MS = 5000;
+
+/**
+ * Used by `Uploader` to measure an upload's throughput as a moving average over the last
+ * `_windowMs` milliseconds, which smooths out the bursts in which progress events tend to arrive.
+ */
+export class TransferRateMeter {
+    private _samples: ITransferSample[] = [];
+
+    constructor(private _windowMs = DEFAULT_WINDOW_MS) { }
+
+    /** Record the number of bytes loaded so far. */
+    public update(loaded: number, time = Date.now()): void {
+        const lastSample = this._samples[this._samples.length - 1];
+        if (lastSample && loaded < lastSample.loaded) {
+            // The transfer started over, so older samples no longer tell us anything.
+            this._samples = [];
+        }
+        this._samples.push({ time, loaded });
+
+        // Keep the newest sample from before the window, so the window is always fully covered.
+        while (this._samples.length > 2 && this._samples[1].time <= time - this._windowMs) {
+            this._samples.shift();
+        }
+    }
+
+    /** The average number of bytes per second over the window, or `0` until there are enough samples. */
+    public get bytesPerSecond(): number {
+        const firstSample = this._samples[0];
+        const lastSample = this._samples[this._samples.length - 1];
+        if (!firstSample || lastSample.time <= firstSample.time) {
+            return 0;
+        }
+        return 1000 * (lastSample.loaded - firstSample.loaded) / (lastSample.time - firstSample.time);
+    }
+
+    /** The estimated number of seconds until `total` bytes are loaded, or `null` if it can't be estimated yet. */
+    public getSecondsRemaining(total: number): number {
+        const bytesPerSecond = this.bytesPerSecond;
+        const lastSample = this._samples[this._samples.length - 1];
+        if (!lastSample || bytesPerSecond <= 0) {
+            return null;
+        }
+        return Math.max(0, total - lastSample.loaded) / bytesPerSecond;
+    }
+}
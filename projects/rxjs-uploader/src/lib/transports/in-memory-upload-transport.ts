@@ -0,0 +1,125 @@
+import { Observable } from 'rxjs';
+import {
+    IUploadTransport,
+    IUploadTransportRequest,
+    IUploadTransportResponse,
+    UploadTransportEvent,
+    UploadTransportEventType
+} from '../models/upload-transport';
+
+export type InMemoryUploadTransportResponder = (request: IUploadTransportRequest) =>
+    Partial<IUploadTransportResponse> | Promise<Partial<IUploadTransportResponse>>;
+
+export interface IInMemoryUploadTransportOptions {
+    /**
+     * Produces the response for each request. If it throws or rejects, the request fails as if
+     * there were a network error. Defaults to an empty `200 OK` response.
+     */
+    respond?: InMemoryUploadTransportResponder;
+    /** Number of progress events emitted before the response. Defaults to `4`. */
+    progressSteps?: number;
+    /** Milliseconds to wait before each progress event and before the response. Defaults to `0`. */
+    latencyMs?: number;
+}
+
+/**
+ * An `IUploadTransport` that never touches the network, useful for tests and demos.
+ * Requests are recorded in `requests` and answered by the `respond` option.
+ */
+export class InMemoryUploadTransport implements IUploadTransport {
+    /** Every request sent through the transport, in order. */
+    public requests: IUploadTransportRequest[] = [];
+    /** Every request that was aborted before it received a response. */
+    public abortedRequests: IUploadTransportRequest[] = [];
+
+    constructor(private _options: IInMemoryUploadTransportOptions = {}) { }
+
+    public send(request: IUploadTransportRequest): Observable<UploadTransportEvent> {
+        return new Observable<UploadTransportEvent>((subscriber) => {
+            const progressSteps = typeof this._options.progressSteps === 'number'
+                ? this._options.progressSteps
+                : 4;
+            const latencyMs = this._options.latencyMs || 0;
+            const total = getBodySize(request.body);
+            let step = 0;
+            let isDone = false;
+            let timeout: any;
+
+            const tick = (): void => {
+                if (step < progressSteps) {
+                    step++;
+                    subscriber.next({
+                        type: UploadTransportEventType.Progress,
+                        loaded: Math.round(total * step / progressSteps),
+                        total
+                    });
+                    if (!subscriber.closed) {
+                        timeout = setTimeout(tick, latencyMs);
+                    }
+                    return;
+                }
+                Promise.resolve()
+                    .then(() => typeof this._options.respond === 'function'
+                        ? this._options.respond(request)
+                        : {})
+                    .then(
+                        (response) => {
+                            if (isDone) {
+                                return;
+                            }
+                            isDone = true;
+                            subscriber.next({
+                                type: UploadTransportEventType.Complete,
+                                response: {
+                                    status: 200,
+                                    statusText: '',
+                                    body: '',
+                                    headers: {},
+                                    ...response
+                                }
+                            });
+                            subscriber.complete();
+                        },
+                        (error) => {
+                            if (isDone) {
+                                return;
+                            }
+                            isDone = true;
+                            subscriber.error(error);
+                        }
+                    );
+            };
+
+            this.requests.push(request);
+            timeout = setTimeout(tick, latencyMs);
+
+            return () => {
+                clearTimeout(timeout);
+                if (!isDone) {
+                    isDone = true;
+                    this.abortedRequests.push(request);
+                }
+            };
+        });
+    }
+}
+
+function getBodySize(body: IUploadTransportRequest['body']): number {
+    if (!body) {
+        return 0;
+    }
+    if (body instanceof Blob) {
+        return body.size;
+    }
+    if (body instanceof ArrayBuffer) {
+        return body.byteLength;
+    }
+    if (typeof body === 'string') {
+        return body.length;
+    }
+    let size = 0;
+    body.forEach((value) => {
+        size += typeof value === 'string' ? value.length : value.size;
+    });
+    return size;
+}
@@ -0,0 +1,101 @@
+import { fromEvent, merge, Observable, Subscriber } from 'rxjs';
+import {
+    IUploadTransport,
+    IUploadTransportRequest,
+    IUploadTransportResponse,
+    UploadTransportEvent,
+    UploadTransportEventType
+} from '../models/upload-transport';
+import { UploadAbortedError, UploadNetworkError } from '../models/uploader-error';
+
+/** @see https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest/readyState */
+export const enum XHRReadyState {
+    UNSENT = 0,
+    OPENED = 1,
+    HEADERS_RECEIVED = 2,
+    LOADING = 3,
+    DONE = 4
+}
+
+/**
+ * The default `IUploadTransport`, which sends each request using an `XMLHttpRequest`.
+ */
+export class XhrUploadTransport implements IUploadTransport {
+    public send(request: IUploadTransportRequest): Observable<UploadTransportEvent> {
+        return new Observable<UploadTransportEvent>((subscriber) => {
+            const xhr = new XMLHttpRequest();
+            xhr.withCredentials = request.withCredentials || false;
+            xhr.responseType = request.responseType || 'text';
+
+            const subscription = merge(
+                fromEvent<ProgressEvent>(xhr.upload, 'progress'),
+                fromEvent<ProgressEvent>(xhr, 'load'),
+                fromEvent<ProgressEvent>(xhr, 'error'),
+                fromEvent<ProgressEvent>(xhr, 'timeout'),
+                fromEvent<ProgressEvent>(xhr, 'abort')
+            )
+                .subscribe((event) => this._handleEvent(xhr, request, event, subscriber));
+
+            xhr.open(request.method, request.url, true);
+            if (request.headers) {
+                Object.keys(request.headers).forEach((key) => {
+                    xhr.setRequestHeader(key, request.headers[key]);
+                });
+            }
+            xhr.send(request.body);
+
+            return () => {
+                subscription.unsubscribe();
+                if (xhr.readyState !== XHRReadyState.DONE) {
+                    xhr.abort();
+                }
+            };
+        });
+    }
+
+    private _handleEvent(
+        xhr: XMLHttpRequest,
+        request: IUploadTransportRequest,
+        event: ProgressEvent,
+        subscriber: Subscriber<UploadTransportEvent>
+    ): void {
+        // Aborts caused by unsubscribing never get here, since we stop listening first.
+        if (event.type === 'abort') {
+            subscriber.error(new UploadAbortedError(`The request to ${request.url} was aborted.`));
+        } else if (event.type === 'error' || event.type === 'timeout') {
+            subscriber.error(new UploadNetworkError(`The request to ${request.url} failed.`, undefined, event));
+        } else if (xhr.readyState !== XHRReadyState.DONE) {
+            subscriber.next({
+                type: UploadTransportEventType.Progress,
+                loaded: event.loaded,
+                total: event.total
+            });
+        } else {
+            subscriber.next({
+                type: UploadTransportEventType.Complete,
+                response: this._createResponse(xhr)
+            });
+            subscriber.complete();
+        }
+    }
+
+    private _createResponse(xhr: XMLHttpRequest): IUploadTransportResponse {
+        const headers: { [key: string]: string } = {};
+        (xhr.getAllResponseHeaders() || '')
+            .trim()
+            .split(/[\r\n]+/)
+            .forEach((line) => {
+                const separatorIndex = line.indexOf(':');
+                if (separatorIndex > 0) {
+                    headers[line.slice(0, separatorIndex).trim().toLowerCase()] =
+                        line.slice(separatorIndex + 1).trim();
+                }
+            });
+        return {
+            status: xhr.status,
+            statusText: xhr.statusText,
+            body: xhr.response,
+            headers
+        };
+    }
+}
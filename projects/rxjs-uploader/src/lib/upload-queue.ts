@@ -0,0 +1,52 @@
+interface IQueuedUpload {
+    id: Symbol;
+    start: () => void;
+}
+
+/**
+ * Used by `Uploader` to limit the number of uploads in progress at the same time.
+ * Uploads are started in the order they were enqueued, as soon as a slot is free.
+ */
+export class UploadQueue {
+    private _pendingUploads: IQueuedUpload[] = [];
+    private _activeIds: Symbol[] = [];
+
+    /**
+     * @param _getLimit Returns the maximum number of active uploads. Anything falsy or < 1 means
+     * infinity.
+     */
+    constructor(private _getLimit: () => number) { }
+
+    /** Call `start` once a slot is free. Replaces any pending entry with the same `id`. */
+    public enqueue(id: Symbol, start: () => void): void {
+        this._pendingUploads = this._pendingUploads.filter((pendingUpload) => pendingUpload.id !== id);
+        this._pendingUploads.push({ id, start });
+        this._dequeue();
+    }
+
+    /** Free the upload's slot, or take it out of the queue if it hasn't started. */
+    public release(id: Symbol): void {
+        this._pendingUploads = this._pendingUploads.filter((pendingUpload) => pendingUpload.id !== id);
+        this._activeIds = this._activeIds.filter((activeId) => activeId !== id);
+        this._dequeue();
+    }
+
+    /** Forget about every pending and active upload. */
+    public clear(): void {
+        this._pendingUploads = [];
+        this._activeIds = [];
+    }
+
+    private _dequeue(): void {
+        while (this._pendingUploads.length && !this._isFull()) {
+            const { id, start } = this._pendingUploads.shift();
+            this._activeIds.push(id);
+            start();
+        }
+    }
+
+    private _isFull(): boolean {
+        const limit = this._getLimit();
+        return limit > 0 && this._activeIds.length >= limit;
+    }
+}
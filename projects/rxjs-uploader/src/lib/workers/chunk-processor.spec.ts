@@ -0,0 +1,29 @@
+import { IChunkProcessor, processInChunks } from './chunk-processor';
+
+function createLengthProcessor(): IChunkProcessor {
+    let total = 0;
+    return {
+        push: (chunk) => {
+            total += chunk.length;
+            return new Uint8Array([ chunk.length ]);
+        },
+        finish: () => new Uint8Array([ total ])
+    };
+}
+
+describe('Chunk processing', () => {
+    const blob = new Blob([ '0123456789' ]);
+
+    it('should feed the blob to the processor a chunk at a time and pass on its outputs in order', async () => {
+        const outputs: number[] = [];
+        await processInChunks(blob, 4, createLengthProcessor, null, (output) => outputs.push(output[0]));
+        expect(outputs).toEqual([ 4, 4, 2, 10 ]);
+    });
+
+    it('should process the blob on the main thread when a worker can\'t be started', async () => {
+        spyOn(window as Window & { Worker: typeof Worker }, 'Worker').and.throwError('Refused to create a worker');
+        const outputs: number[] = [];
+        await processInChunks(blob, 8, createLengthProcessor, null, (output) => outputs.push(output[0]));
+        expect(outputs).toEqual([ 8, 2, 10 ]);
+    });
+});
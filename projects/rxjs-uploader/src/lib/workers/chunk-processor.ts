@@ -0,0 +1,128 @@
+import { readAsArrayBuffer } from '../helpers';
+
+/** Consumes bytes a chunk at a time (e.g. to hash or compress them). */
+export interface IChunkProcessor {
+    /** Processes the next chunk, returning the output produced so far, if any. */
+    push(chunk: Uint8Array): Uint8Array;
+    /** Processes the end of the input, returning the rest of the output. */
+    finish(): Uint8Array;
+}
+
+/**
+ * Creates an `IChunkProcessor`. It's stringified into a Worker's script, so it must only use what's
+ * declared in its own body, and nothing which compiles to a TypeScript helper (classes which extend
+ * others, spread, destructuring or `for...of`). `options` must be structured-cloneable.
+ */
+export type ChunkProcessorFactory<TOptions> = (options: TOptions) => IChunkProcessor;
+
+interface IChunkProcessorRunner {
+    push(chunk: Uint8Array): Promise<Uint8Array>;
+    finish(): Promise<Uint8Array>;
+    terminate(): void;
+}
+
+interface IChunkProcessorMessage {
+    type: 'create' | 'push' | 'finish';
+    data?: any;
+}
+
+function getWorkerScript(factory: ChunkProcessorFactory<any>): string {
+    return `var createProcessor = (${factory.toString()});
+var processor;
+self.onmessage = function (event) {
+    try {
+        var message = event.data;
+        var output = null;
+        if (message.type === 'create') {
+            processor = createProcessor(message.data);
+        } else if (message.type === 'push') {
+            output = processor.push(message.data);
+        } else {
+            output = processor.finish();
+        }
+        self.postMessage({ output: output });
+    } catch (error) {
+        self.postMessage({ error: String(error && error.message || error) });
+    }
+};`;
+}
+
+async function createWorkerRunner<TOptions>(
+    factory: ChunkProcessorFactory<TOptions>,
+    options: TOptions
+): Promise<IChunkProcessorRunner> {
+    const scriptUrl = URL.createObjectURL(new Blob([ getWorkerScript(factory) ], { type: 'text/javascript' }));
+    let worker: Worker;
+    const send = (message: IChunkProcessorMessage, transfer: Transferable[] = []) => new Promise<Uint8Array>(
+        (resolve, reject) => {
+            worker.onmessage = (event: MessageEvent) => event.data.error
+                ? reject(new Error(event.data.error))
+                : resolve(event.data.output);
+            worker.onerror = (event: ErrorEvent) => {
+                event.preventDefault();
+                reject(new Error(event.message || 'The worker failed.'));
+            };
+            worker.postMessage(message, transfer);
+        }
+    );
+    try {
+        worker = new Worker(scriptUrl);
+        await send({ type: 'create', data: options });
+    } catch (error) {
+        if (worker) {
+            worker.terminate();
+        }
+        throw error;
+    } finally {
+        URL.revokeObjectURL(scriptUrl);
+    }
+    return {
+        // Each chunk is transferred to the worker rather than copied.
+        push: (chunk) => send({ type: 'push', data: chunk }, [ chunk.buffer ]),
+        finish: () => send({ type: 'finish' }),
+        terminate: () => worker.terminate()
+    };
+}
+
+function createMainThreadRunner<TOptions>(
+    factory: ChunkProcessorFactory<TOptions>,
+    options: TOptions
+): IChunkProcessorRunner {
+    const processor = factory(options);
+    return {
+        push: async (chunk) => processor.push(chunk),
+        finish: async () => processor.finish(),
+        terminate: () => { }
+    };
+}
+
+/**
+ * Read the blob a chunk at a time and feed it to the processor `factory` creates, passing each of
+ * its outputs to `onOutput`. Only one chunk is in memory at a time. The processor runs in a Worker,
+ * so that the page stays responsive, or on the main thread where a Worker can't be started (e.g.
+ * because a Content Security Policy doesn't allow `blob:` workers).
+ */
+export async function processInChunks<TOptions>(
+    blob: Blob,
+    chunkSize: number,
+    factory: ChunkProcessorFactory<TOptions>,
+    options: TOptions,
+    onOutput: (output: Uint8Array) => void
+): Promise<void> {
+    const runner = typeof Worker === 'function' && typeof URL.createObjectURL === 'function'
+        ? await createWorkerRunner(factory, options).catch(() => createMainThreadRunner(factory, options))
+        : createMainThreadRunner(factory, options);
+    const emit = (output: Uint8Array) => {
+        if (output && output.length) {
+            onOutput(output);
+        }
+    };
+    try {
+        for (let offset = 0; offset < blob.size; offset += chunkSize) {
+            emit(await runner.push(new Uint8Array(await readAsArrayBuffer(blob.slice(offset, offset + chunkSize)))));
+        }
+        emit(await runner.finish());
+    } finally {
+        runner.terminate();
+    }
+}
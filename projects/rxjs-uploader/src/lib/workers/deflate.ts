@@ -0,0 +1,223 @@
+import { IChunkProcessor } from './chunk-processor';
+
+/* tslint:disable:no-bitwise */
+// DEFLATE's bit packing, hashing and checksums (CRC-32 and Adler-32) are defined in terms of
+// bitwise operations, so they're allowed in this module, for the compression only.
+
+/**
+ * Creates a chunk processor which compresses its input to gzip (if `format` is `'gzip'`) or zlib
+ * (if it's `'deflate'`), for browsers without `CompressionStream`. See `processInChunks`. Trades
+ * some compression for simplicity: it finds repeated strings (LZ77) but uses DEFLATE's fixed
+ * Huffman codes, which still shrinks text like CSVs and logs several times over.
+ */
+export function createDeflateProcessor(format: string): IChunkProcessor {
+    const WINDOW_SIZE = 32768;
+    const MIN_MATCH = 3;
+    const MAX_MATCH = 258;
+    const MAX_CHAIN = 32;
+    const HASH_SIZE = 1 << 15;
+    const END_OF_BLOCK = 256;
+    const LENGTH_BASES = [
+        3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+    ];
+    const LENGTH_EXTRA_BITS = [ 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0 ];
+    const DISTANCE_BASES = [
+        1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097,
+        6145, 8193, 12289, 16385, 24577
+    ];
+    const DISTANCE_EXTRA_BITS = [
+        0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+    ];
+    const isGzip = format === 'gzip';
+    const crcTable = new Uint32Array(256);
+    for (let index = 0; index < 256; index++) {
+        let entry = index;
+        for (let bit = 0; bit < 8; bit++) {
+            entry = entry & 1 ? 0xedb88320 ^ (entry >>> 1) : entry >>> 1;
+        }
+        crcTable[index] = entry;
+    }
+    let outputBytes: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let history = new Uint8Array(0);
+    let checksum = isGzip ? 0 : 1;
+    let byteCount = 0;
+
+    /** Writes bits least significant first, as DEFLATE does. */
+    function writeBits(value: number, count: number): void {
+        bitBuffer |= value << bitCount;
+        bitCount += count;
+        while (bitCount >= 8) {
+            outputBytes.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    }
+
+    /** Huffman codes are packed most significant bit first. */
+    function writeCode(code: number, length: number): void {
+        let reversed = 0;
+        for (let bit = 0; bit < length; bit++) {
+            reversed = (reversed << 1) | ((code >>> bit) & 1);
+        }
+        writeBits(reversed, length);
+    }
+
+    function writeBytes(bytes: number[]): void {
+        bytes.forEach((byte) => writeBits(byte, 8));
+    }
+
+    /** Returns the complete bytes written since the last flush. */
+    function flush(): Uint8Array {
+        const bytes = new Uint8Array(outputBytes);
+        outputBytes = [];
+        return bytes;
+    }
+
+    /** Write a literal byte, or the end-of-block marker, with its fixed Huffman code. */
+    function writeLiteral(value: number): void {
+        if (value < 144) {
+            writeCode(0x30 + value, 8);
+        } else if (value < 256) {
+            writeCode(0x190 + value - 144, 9);
+        } else {
+            writeCode(value - 256, 7);
+        }
+    }
+
+    function writeLength(length: number): void {
+        let index = LENGTH_BASES.length - 1;
+        while (LENGTH_BASES[index] > length) {
+            index--;
+        }
+        const symbol = 257 + index;
+        if (symbol < 280) {
+            writeCode(symbol - 256, 7);
+        } else {
+            writeCode(0xc0 + symbol - 280, 8);
+        }
+        writeBits(length - LENGTH_BASES[index], LENGTH_EXTRA_BITS[index]);
+    }
+
+    function writeDistance(distance: number): void {
+        let index = DISTANCE_BASES.length - 1;
+        while (DISTANCE_BASES[index] > distance) {
+            index--;
+        }
+        writeCode(index, 5);
+        writeBits(distance - DISTANCE_BASES[index], DISTANCE_EXTRA_BITS[index]);
+    }
+
+    function getHash(data: Uint8Array, position: number): number {
+        return ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) & (HASH_SIZE - 1);
+    }
+
+    function updateChecksum(bytes: Uint8Array): void {
+        if (isGzip) {
+            let crc = checksum ^ 0xffffffff;
+            for (let index = 0; index < bytes.length; index++) {
+                crc = crcTable[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+            }
+            checksum = (crc ^ 0xffffffff) >>> 0;
+        } else {
+            let a = checksum & 0xffff;
+            let b = checksum >>> 16;
+            for (let index = 0; index < bytes.length; index++) {
+                a = (a + bytes[index]) % 65521;
+                b = (b + a) % 65521;
+            }
+            checksum = ((b << 16) | a) >>> 0;
+        }
+    }
+
+    /** Write a block with fixed Huffman codes, matching against the last 32KiB of the stream too. */
+    function writeBlock(bytes: Uint8Array, isFinal: boolean): void {
+        const historyLength = history.length;
+        const data = new Uint8Array(historyLength + bytes.length);
+        data.set(history);
+        data.set(bytes, historyLength);
+
+        const head = new Int32Array(HASH_SIZE).fill(-1);
+        const previous = new Int32Array(data.length);
+        const insert = (index: number) => {
+            const hash = getHash(data, index);
+            previous[index] = head[hash];
+            head[hash] = index;
+        };
+        for (let index = 0; index + MIN_MATCH <= historyLength; index++) {
+            insert(index);
+        }
+
+        writeBits(isFinal ? 1 : 0, 1);
+        writeBits(1, 2);
+        let position = historyLength;
+        while (position < data.length) {
+            let matchLength = 0;
+            let matchDistance = 0;
+            if (position + MIN_MATCH <= data.length) {
+                const maxLength = Math.min(MAX_MATCH, data.length - position);
+                let candidate = head[getHash(data, position)];
+                for (let chain = 0; candidate >= 0 && position - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+                    let length = 0;
+                    while (length < maxLength && data[candidate + length] === data[position + length]) {
+                        length++;
+                    }
+                    if (length > matchLength) {
+                        matchLength = length;
+                        matchDistance = position - candidate;
+                        if (length === maxLength) {
+                            break;
+                        }
+                    }
+                    candidate = previous[candidate];
+                }
+            }
+            if (matchLength >= MIN_MATCH) {
+                writeLength(matchLength);
+                writeDistance(matchDistance);
+                for (const end = position + matchLength; position < end; position++) {
+                    if (position + MIN_MATCH <= data.length) {
+                        insert(position);
+                    }
+                }
+            } else {
+                writeLiteral(data[position]);
+                if (position + MIN_MATCH <= data.length) {
+                    insert(position);
+                }
+                position++;
+            }
+        }
+        writeLiteral(END_OF_BLOCK);
+        history = data.slice(Math.max(0, data.length - WINDOW_SIZE));
+    }
+
+    writeBytes(isGzip ? [ 0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff ] : [ 0x78, 0x01 ]);
+
+    return {
+        push: (chunk) => {
+            updateChecksum(chunk);
+            byteCount += chunk.length;
+            writeBlock(chunk, false);
+            return flush();
+        },
+        finish: () => {
+            writeBlock(new Uint8Array(0), true);
+            if (bitCount > 0) {
+                writeBits(0, 8 - bitCount);
+            }
+            if (isGzip) {
+                const size = byteCount >>> 0;
+                writeBytes([
+                    checksum & 0xff, (checksum >>> 8) & 0xff, (checksum >>> 16) & 0xff, checksum >>> 24,
+                    size & 0xff, (size >>> 8) & 0xff, (size >>> 16) & 0xff, size >>> 24
+                ]);
+            } else {
+                writeBytes([ checksum >>> 24, (checksum >>> 16) & 0xff, (checksum >>> 8) & 0xff, checksum & 0xff ]);
+            }
+            return flush();
+        }
+    };
+}
+/* tslint:enable:no-bitwise */
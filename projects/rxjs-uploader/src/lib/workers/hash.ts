@@ -0,0 +1,176 @@
+import { IChunkProcessor } from './chunk-processor';
+
+/* tslint:disable:no-bitwise */
+// MD5 and SHA-256 are defined in terms of bitwise operations on 32-bit words, so they're allowed
+// in this module, for the hashing only.
+
+/**
+ * Creates a chunk processor which hashes its input with MD5 (if `algorithm` is `'md5'`) or
+ * SHA-256 (if it's `'sha256'`), and outputs the digest when it's finished. See `processInChunks`.
+ */
+export function createHashProcessor(algorithm: string): IChunkProcessor {
+    const BLOCK_SIZE = 64;
+    const isMd5 = algorithm === 'md5';
+    const md5Shifts = [
+        7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+        5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+        4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+        6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+    ];
+    const md5Constants = md5Shifts.map((_shift, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 0x100000000));
+    const sha256Constants = [
+        0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+        0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+        0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+        0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+        0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+        0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+        0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+        0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+    ];
+    const state = isMd5
+        ? new Uint32Array([ 0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476 ])
+        : new Uint32Array([ 0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19 ]);
+    const words = new Uint32Array(isMd5 ? 16 : 64);
+    const block = new Uint8Array(BLOCK_SIZE);
+    const blockView = new DataView(block.buffer);
+    let blockLength = 0;
+    let byteCount = 0;
+
+    function rotateLeft(word: number, bits: number): number {
+        return (word << bits) | (word >>> (32 - bits));
+    }
+
+    function rotateRight(word: number, bits: number): number {
+        return (word >>> bits) | (word << (32 - bits));
+    }
+
+    function processMd5Block(): void {
+        for (let index = 0; index < 16; index++) {
+            words[index] = blockView.getUint32(index * 4, true);
+        }
+        let a = state[0];
+        let b = state[1];
+        let c = state[2];
+        let d = state[3];
+        for (let index = 0; index < 64; index++) {
+            let f: number;
+            let wordIndex: number;
+            if (index < 16) {
+                f = (b & c) | (~b & d);
+                wordIndex = index;
+            } else if (index < 32) {
+                f = (d & b) | (~d & c);
+                wordIndex = (5 * index + 1) % 16;
+            } else if (index < 48) {
+                f = b ^ c ^ d;
+                wordIndex = (3 * index + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                wordIndex = (7 * index) % 16;
+            }
+            const temp = d;
+            d = c;
+            c = b;
+            b = (b + rotateLeft((a + f + md5Constants[index] + words[wordIndex]) | 0, md5Shifts[index])) | 0;
+            a = temp;
+        }
+        state[0] += a;
+        state[1] += b;
+        state[2] += c;
+        state[3] += d;
+    }
+
+    function processSha256Block(): void {
+        for (let index = 0; index < 16; index++) {
+            words[index] = blockView.getUint32(index * 4);
+        }
+        for (let index = 16; index < 64; index++) {
+            const word15 = words[index - 15];
+            const word2 = words[index - 2];
+            const sigma0 = rotateRight(word15, 7) ^ rotateRight(word15, 18) ^ (word15 >>> 3);
+            const sigma1 = rotateRight(word2, 17) ^ rotateRight(word2, 19) ^ (word2 >>> 10);
+            words[index] = words[index - 16] + sigma0 + words[index - 7] + sigma1;
+        }
+        let a = state[0];
+        let b = state[1];
+        let c = state[2];
+        let d = state[3];
+        let e = state[4];
+        let f = state[5];
+        let g = state[6];
+        let h = state[7];
+        for (let index = 0; index < 64; index++) {
+            const sum1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+            const choice = (e & f) ^ (~e & g);
+            const temp1 = (h + sum1 + choice + sha256Constants[index] + words[index]) | 0;
+            const sum0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+            const majority = (a & b) ^ (a & c) ^ (b & c);
+            const temp2 = (sum0 + majority) | 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + temp1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (temp1 + temp2) | 0;
+        }
+        state[0] += a;
+        state[1] += b;
+        state[2] += c;
+        state[3] += d;
+        state[4] += e;
+        state[5] += f;
+        state[6] += g;
+        state[7] += h;
+    }
+
+    function update(bytes: Uint8Array): void {
+        byteCount += bytes.length;
+        let offset = 0;
+        while (offset < bytes.length) {
+            const length = Math.min(BLOCK_SIZE - blockLength, bytes.length - offset);
+            block.set(bytes.subarray(offset, offset + length), blockLength);
+            blockLength += length;
+            offset += length;
+            if (blockLength === BLOCK_SIZE) {
+                if (isMd5) {
+                    processMd5Block();
+                } else {
+                    processSha256Block();
+                }
+                blockLength = 0;
+            }
+        }
+    }
+
+    return {
+        push: (chunk) => {
+            update(chunk);
+            return null;
+        },
+        finish: () => {
+            // Pad the message with a 1 bit, zeros, and its length in bits as a 64-bit integer
+            // (little-endian for MD5, big-endian for SHA-256).
+            const bitCount = byteCount * 8;
+            const zeroCount = (blockLength < BLOCK_SIZE - 8 ? BLOCK_SIZE - 8 : 2 * BLOCK_SIZE - 8) - blockLength;
+            const padding = new Uint8Array(zeroCount + 8);
+            const paddingView = new DataView(padding.buffer);
+            const highBits = Math.floor(bitCount / 0x100000000);
+            const lowBits = bitCount >>> 0;
+            padding[0] = 0x80;
+            paddingView.setUint32(zeroCount, isMd5 ? lowBits : highBits, isMd5);
+            paddingView.setUint32(zeroCount + 4, isMd5 ? highBits : lowBits, isMd5);
+            update(padding);
+
+            const digest = new Uint8Array(state.length * 4);
+            const digestView = new DataView(digest.buffer);
+            for (let index = 0; index < state.length; index++) {
+                digestView.setUint32(index * 4, state[index], isMd5);
+            }
+            return digest;
+        }
+    };
+}
+/* tslint:enable:no-bitwise */
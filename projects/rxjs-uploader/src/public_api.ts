@@ -1,10 +1,31 @@
 import './polyfills';
 
 export * from './lib/rxjs-uploader';
+export * from './lib/checksum';
+export * from './lib/compression';
+export * from './lib/encryption';
+export * from './lib/preview';
+export * from './lib/models/checksum-options';
+export * from './lib/models/compression-options';
+export * from './lib/models/duplicate-file-policy';
+export * from './lib/models/encryption-options';
+export * from './lib/models/file-preprocessor';
 export * from './lib/models/file-upload';
+export * from './lib/models/file-validator';
 export * from './lib/models/http-method';
 export * from './lib/models/progress';
+export * from './lib/models/retry-policy';
+export * from './lib/models/total-progress';
+export * from './lib/models/upload-interceptor';
 export * from './lib/models/upload-request-options';
+export * from './lib/models/upload-response-type';
+export * from './lib/models/upload-strategy';
+export * from './lib/models/upload-transport';
 export * from './lib/models/uploader-config';
 export * from './lib/models/uploader-error';
 export * from './lib/constants/progress-state';
+export * from './lib/transports/xhr-upload-transport';
+export * from './lib/transports/in-memory-upload-transport';
+export * from './lib/strategies/tus-upload-strategy';
+export * from './lib/strategies/multipart-upload-strategy';
+export * from './lib/preprocessors/image-resize-preprocessor';